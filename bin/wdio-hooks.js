@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+require('ts-node').register({ transpileOnly: true, files: true, project: require('path').resolve(__dirname, '../tsconfig.json') });
+require('../cli').run(process.argv.slice(2));
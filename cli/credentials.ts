@@ -0,0 +1,57 @@
+/**
+ * @author R,Mithun
+ * @module CredentialsCli
+ * Writes and rotates the encrypted credentials file read by the `encrypted` credential source
+ * Passphrases are only read from environment variables so they never end up in the shell history
+ * Usage:
+ * - wdio-hooks credentials encrypt <input.json|yaml> <output> [--passphrase-env CREDENTIALS_PASSPHRASE]
+ * - wdio-hooks credentials rotate <file> [--passphrase-env CREDENTIALS_PASSPHRASE] [--new-passphrase-env CREDENTIALS_PASSPHRASE_NEW]
+ */
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { decryptCredentials, DEFAULT_PASSPHRASE_ENV, encryptCredentials, readCredentialsFile } from '../service/credentials';
+import { getFlag } from './options';
+
+const usage = [
+  'Usage: wdio-hooks credentials encrypt <input.json|yaml> <output> [--passphrase-env NAME]',
+  '       wdio-hooks credentials rotate <file> [--passphrase-env NAME] [--new-passphrase-env NAME]',
+].join('\n');
+
+const getPassphrase = (variable: string) => {
+  const passphrase = process.env[variable];
+  if (!passphrase) throw new Error(`Passphrase variable ${variable} is not set`);
+  return passphrase;
+};
+
+const encrypt = (args: string[]) => {
+  const [input, output] = args;
+  if (!input || !output) throw new Error(usage);
+  const credentials = readCredentialsFile(input);
+  const passphrase = getPassphrase(getFlag(args, '--passphrase-env') ?? DEFAULT_PASSPHRASE_ENV);
+  writeFileSync(resolve(output), JSON.stringify(encryptCredentials(credentials, passphrase), null, 2) + '\n');
+  console.log(`Encrypted ${credentials.length} credentials into ${resolve(output)}`);
+  return 0;
+};
+
+const rotate = (args: string[]) => {
+  const [file] = args;
+  if (!file) throw new Error(usage);
+  const passphrase = getPassphrase(getFlag(args, '--passphrase-env') ?? DEFAULT_PASSPHRASE_ENV);
+  const newPassphrase = getPassphrase(getFlag(args, '--new-passphrase-env') ?? `${DEFAULT_PASSPHRASE_ENV}_NEW`);
+  const credentials = decryptCredentials(JSON.parse(readFileSync(resolve(file), 'utf-8')), passphrase);
+  writeFileSync(resolve(file), JSON.stringify(encryptCredentials(credentials, newPassphrase), null, 2) + '\n');
+  console.log(`Re-encrypted ${credentials.length} credentials in ${resolve(file)}`);
+  return 0;
+};
+
+const commands: { [name: string]: (args: string[]) => number } = { encrypt, rotate };
+
+export default async (args: string[]) => {
+  const [name, ...rest] = args;
+  const command = commands[name];
+  if (!command) {
+    console.error(usage);
+    return 1;
+  }
+  return command(rest);
+};
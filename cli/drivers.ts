@@ -0,0 +1,112 @@
+/**
+ * @author R,Mithun
+ * @module DriversCli
+ * Manages the drivers of the Driver service without running WebdriverIO, using the Driver options of the wdio config
+ * Usage: wdio-hooks drivers <install|list|prune|verify> [--config wdio.conf.ts] [--update]
+ * - install: resolve and download the drivers, then write drivers.lock.json (--update re-resolves locked versions)
+ * - list: show the installed versions under .drivers and whether they are locked
+ * - prune: delete version folders that are not locked (the newest one is kept for drivers without a lock entry)
+ * - verify: check the locked drivers are installed, match the locked hash and start with --version
+ */
+import { existsSync, readdirSync, rmSync, statSync } from 'fs';
+import { resolve } from 'path';
+import Driver, { driverType } from '../service/driver';
+import { getFlag, loadServiceOptions } from './options';
+
+const usage = 'Usage: wdio-hooks drivers <install|list|prune|verify> [--config wdio.conf.ts] [--update]';
+
+const getInstalledVersions = (driver: Driver) => {
+  const root = driver.getDriversRoot();
+  if (!existsSync(root)) return [];
+  const folders = (path: string) => readdirSync(path).filter((name) => statSync(resolve(path, name)).isDirectory());
+  return folders(root).flatMap((name) =>
+    folders(resolve(root, name)).map((version) => {
+      const folder = driver.getDriverFolder(name as driverType, version);
+      return { driver: name as driverType, version, folder, marker: driver.readInstalledMarker(folder) };
+    })
+  );
+};
+
+const isLocked = (driver: Driver, name: driverType, version: string) => driver._lock?.drivers?.[name]?.version === version;
+
+/**
+ * Without java the service falls back to direct mode, a lock written then has no selenium entry. That is only
+ * wanted when direct mode is configured, otherwise the install fails instead of locking half the setup.
+ */
+const install = async (driver: Driver) => {
+  const configured = driver._mode;
+  driver.checkDependencies();
+  if (driver._mode !== configured) {
+    console.error("java not found, selenium can not be installed or locked. Install java, or set mode: 'direct' to lock the drivers only");
+    return 1;
+  }
+  await driver.installDrivers();
+  driver.writeLockfile();
+  return 0;
+};
+
+const list = async (driver: Driver) => {
+  const installed = getInstalledVersions(driver);
+  if (!installed.length) console.log('No drivers installed');
+  installed.forEach(({ driver: name, version, marker }) => {
+    const state = marker ? `installed ${marker.installedAt}` : 'incomplete';
+    console.log(`${name} ${version} ${state}${isLocked(driver, name, version) ? ' (locked)' : ''}`);
+  });
+  return 0;
+};
+
+const prune = async (driver: Driver) => {
+  const installed = getInstalledVersions(driver);
+  const newest: { [name: string]: string } = {};
+  installed
+    .filter(({ marker }) => marker)
+    .sort((a, b) => a.marker!.installedAt.localeCompare(b.marker!.installedAt))
+    .forEach(({ driver: name, version }) => (newest[name] = version));
+  installed
+    .filter(({ driver: name, version, marker }) => {
+      if (!marker) return true;
+      return driver._lock?.drivers?.[name] ? !isLocked(driver, name, version) : newest[name] !== version;
+    })
+    .forEach(({ driver: name, version, folder }) => {
+      rmSync(folder, { recursive: true, force: true });
+      console.log(`Removed ${name} ${version}`);
+    });
+  return 0;
+};
+
+const verify = async (driver: Driver) => {
+  if (!driver._lock) {
+    console.error(`No lockfile found at ${driver._lockPath}, run 'wdio-hooks drivers install' first`);
+    return 1;
+  }
+  driver.checkDependencies();
+  let failures = 0;
+  Object.entries(driver._lock.drivers).forEach(([name, entry]) => {
+    const folder = driver.getDriverFolder(name as driverType, entry!.version);
+    const marker = driver.readInstalledMarker(folder);
+    const locked = driver.getLockEntry(name as driverType, entry!.version);
+    driver._driverPaths[name] = resolve(folder, driver.getDriverBinaryName(name as driverType));
+    let problem = '';
+    if (!marker) problem = 'not installed';
+    else if (locked && marker.sha256 !== locked.sha256) problem = `sha256 ${marker.sha256} does not match the lockfile`;
+    else if (!(name === 'selenium' && !driver._javaPath) && !driver.isValidInstallation(name as driverType, entry!.version)) {
+      problem = 'does not start';
+    }
+    problem && failures++;
+    console.log(`${name} ${entry!.version} ${problem || 'ok'}`);
+  });
+  return failures ? 1 : 0;
+};
+
+const commands: { [name: string]: (driver: Driver) => Promise<number> } = { install, list, prune, verify };
+
+export default async (args: string[]) => {
+  const command = commands[args[0]];
+  if (!command) {
+    console.error(usage);
+    return 1;
+  }
+  const options = loadServiceOptions(resolve(getFlag(args, '--config') ?? 'wdio.conf.ts'), Driver);
+  const driver = new Driver({ ...options, updateLock: args.includes('--update') }, {}, {});
+  return await command(driver);
+};
@@ -0,0 +1,102 @@
+/**
+ * @author R,Mithun
+ * @module HistoryCli
+ * Queries the test history kept by the Reporter service, using the Reporter options of the wdio config
+ * Usage: wdio-hooks history <show|flaky|quarantine|performance> [--config wdio.conf.ts]
+ * - show [prefix] [--mode dev] [--browser chrome]: runs, failures, flakiness and duration trend per test, mode and browser
+ * - flaky [--threshold 0.3]: the keys at or above the threshold, flakiest first
+ * - quarantine [list | add <test id> [--reason text] | remove <test id>]: manage the quarantine list
+ * - performance [page prefix] [--mode dev] [--browser chrome]: latest page measurements against the previous runs
+ */
+import { resolve } from 'path';
+import Reporter from '../service/reporter';
+import { DEFAULT_HISTORY_DIR, History, historyStats, measurementStats } from '../service/history';
+import { getFlag, loadServiceOptions } from './options';
+
+const usage = [
+  'Usage: wdio-hooks history show [prefix] [--mode NAME] [--browser NAME] [--config wdio.conf.ts]',
+  '       wdio-hooks history flaky [--threshold 0.3] [--config wdio.conf.ts]',
+  '       wdio-hooks history quarantine [list | add <test id> [--reason TEXT] | remove <test id>] [--config wdio.conf.ts]',
+  '       wdio-hooks history performance [page prefix] [--mode NAME] [--browser NAME] [--config wdio.conf.ts]',
+].join('\n');
+
+/**
+ * Positional arguments, without the flags and their values
+ */
+const getPositionals = (args: string[]) => args.filter((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+
+const formatStats = ({ key, runs, fails, flakiness, averageDuration, durationTrend, lastState }: historyStats) => {
+  const trend = `${durationTrend >= 0 ? '+' : ''}${Math.round(durationTrend * 100)}%`;
+  return `${key} runs ${runs}, failed ${fails}, flakiness ${flakiness.toFixed(2)}, avg ${averageDuration}ms (${trend}), last ${lastState}`;
+};
+
+const formatMeasurement = ({ page, name, mode, browser, runs, latest, change }: measurementStats) => {
+  const metrics = Object.entries(latest).map(([metric, value]) => {
+    const delta = Math.round(change[metric] * 100);
+    return `${metric} ${value} (${delta >= 0 ? '+' : ''}${delta}%)`;
+  });
+  return `${page} ${name} ${mode} ${browser}, ${runs} runs: ${metrics.join(', ')}`;
+};
+
+const show = async (history: History, args: string[]) => {
+  const [prefix] = getPositionals(args);
+  const stats = history.getStats({ prefix, mode: getFlag(args, '--mode'), browser: getFlag(args, '--browser') });
+  if (!stats.length) console.log('No history found');
+  stats.sort((a, b) => a.key.localeCompare(b.key)).forEach((stat) => console.log(formatStats(stat)));
+  return 0;
+};
+
+const flaky = async (history: History, args: string[]) => {
+  const threshold = Number(getFlag(args, '--threshold') ?? 0.3);
+  const stats = history.getStats().filter((stat) => stat.flakiness >= threshold);
+  if (!stats.length) console.log(`No test with flakiness >= ${threshold}`);
+  stats.sort((a, b) => b.flakiness - a.flakiness).forEach((stat) => console.log(formatStats(stat)));
+  return 0;
+};
+
+const quarantine = async (history: History, args: string[]) => {
+  const [action = 'list', testId] = getPositionals(args);
+  if (action === 'list') {
+    const entries = Object.entries(history.readQuarantine());
+    if (!entries.length) console.log('No test in quarantine');
+    entries.forEach(([id, { reason, since, auto }]) => console.log(`${id} since ${since}${auto ? ' (auto)' : ''}: ${reason}`));
+    return 0;
+  }
+  if (!testId) {
+    console.error(usage);
+    return 1;
+  }
+  if (action === 'add') {
+    history.quarantine(testId, getFlag(args, '--reason') ?? 'added by hand');
+    console.log(`Quarantined ${testId}`);
+    return 0;
+  }
+  if (action === 'remove') {
+    const removed = history.release(testId);
+    console.log(removed ? `Released ${testId}` : `${testId} is not in quarantine`);
+    return removed ? 0 : 1;
+  }
+  console.error(usage);
+  return 1;
+};
+
+const performance = async (history: History, args: string[]) => {
+  const [prefix] = getPositionals(args);
+  const stats = history.getMeasurementStats({ prefix, mode: getFlag(args, '--mode'), browser: getFlag(args, '--browser') });
+  if (!stats.length) console.log('No measurements found');
+  stats.sort((a, b) => a.key.localeCompare(b.key)).forEach((stat) => console.log(formatMeasurement(stat)));
+  return 0;
+};
+
+const commands: { [name: string]: (history: History, args: string[]) => Promise<number> } = { show, flaky, quarantine, performance };
+
+export default async (args: string[]) => {
+  const [name, ...rest] = args;
+  const command = commands[name];
+  if (!command) {
+    console.error(usage);
+    return 1;
+  }
+  const options = loadServiceOptions(resolve(getFlag(args, '--config') ?? 'wdio.conf.ts'), Reporter);
+  return await command(new History(options.historyDir ?? DEFAULT_HISTORY_DIR, options.historySize), rest);
+};
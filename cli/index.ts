@@ -0,0 +1,32 @@
+/**
+ * @author R,Mithun
+ * @module Cli
+ * Entry point of the `wdio-hooks` command, dispatches to the sub commands below:
+ * - drivers: install, list, prune and verify the browser drivers of the Driver service
+ * - credentials: encrypt and rotate the credentials file of the Launcher service
+ * - history: query the test history, flaky tests, quarantine list and page measurements of the Reporter service
+ */
+import credentials from './credentials';
+import drivers from './drivers';
+import history from './history';
+
+const commands: { [name: string]: (args: string[]) => Promise<number> } = {
+  drivers,
+  credentials,
+  history,
+};
+
+export const run = async (args: string[]) => {
+  const [name, ...rest] = args;
+  const command = commands[name];
+  if (!command) {
+    console.error(`Usage: wdio-hooks <${Object.keys(commands).join('|')}> ...`);
+    process.exit(1);
+  }
+  try {
+    process.exitCode = await command(rest);
+  } catch (err) {
+    console.error(err.message);
+    process.exitCode = 1;
+  }
+};
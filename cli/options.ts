@@ -0,0 +1,21 @@
+/**
+ * @author R,Mithun
+ * @module CliOptions
+ * Argument and config helpers shared by the sub commands
+ * - getFlag(args, flag): the value after `flag`, undefined when it is not given
+ * - loadServiceOptions(configPath, service): the options of `service` in the wdio config, {} when the config or the
+ *   service is missing
+ */
+import { existsSync } from 'fs';
+
+export const getFlag = (args: string[], flag: string) => {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+export const loadServiceOptions = (configPath: string, service: unknown) => {
+  if (!existsSync(configPath)) return {};
+  const { config } = require(configPath);
+  const entry = (config?.services ?? []).find((candidate: any) => Array.isArray(candidate) && candidate[0] === service);
+  return entry?.[1] ?? {};
+};
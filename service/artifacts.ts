@@ -0,0 +1,43 @@
+/**
+ * @author R,Mithun
+ * @module Artifacts
+ * Folders for the failure artifacts of the Reporter:
+ * - <dir>/<run>/<test id>-<capability>/ with what Diagnostics saves, one run folder per wdio run
+ * - only the latest `retention` run folders are kept, older ones are removed when a run starts
+ */
+import { existsSync, mkdirSync, readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+
+const slug = (value: string) =>
+  value
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 80);
+
+export const createRunFolder = (dir: string) => {
+  const folder = join(dir, new Date().toISOString().replace(/[:.]/g, '-'));
+  mkdirSync(folder, { recursive: true });
+  return folder;
+};
+
+/**
+ * Removes the oldest run folders so that `keep` of them remain, the run about to start included
+ */
+export const pruneRuns = (dir: string, keep: number) => {
+  if (!existsSync(dir)) return;
+  const runs = readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+  runs.slice(0, Math.max(0, runs.length - keep + 1)).forEach((run) => rmSync(join(dir, run), { recursive: true, force: true }));
+};
+
+/**
+ * A new folder for the test in the run, retried tests get -2, -3... so every attempt keeps its artifacts
+ */
+export const getTestFolder = (run: string, testId: string, capability: string) => {
+  const name = `${slug(testId)}-${slug(capability)}`;
+  let folder = join(run, name);
+  for (let attempt = 2; existsSync(folder); attempt++) folder = join(run, `${name}-${attempt}`);
+  return folder;
+};
@@ -0,0 +1,140 @@
+/**
+ * @author R,Mithun
+ * @module Credentials
+ * Resolves the credential pool of a profile through the provider named in `credentials.source`:
+ * - inline: credentials listed in `values`, only meant for values that are not secret (e.g. emails)
+ * - env: JSON array read from the environment variable named in `variable`
+ * - file: JSON or YAML array read from `path`
+ * - encrypted: file written by `wdio-hooks credentials encrypt` at `path`, decrypted with the passphrase held in the
+ *   environment variable named in `passphraseEnv` (CREDENTIALS_PASSPHRASE by default)
+ * Teams can add their own with registerCredentialProvider. createMasker hides secret values in anything logged.
+ */
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { SevereServiceError } from 'webdriverio';
+import type { credentialSource } from './profile';
+
+export interface CredentialProvider {
+  load(): any[];
+}
+
+export type encryptedCredentials = {
+  version: number;
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+export const DEFAULT_PASSPHRASE_ENV = 'CREDENTIALS_PASSPHRASE';
+
+const PBKDF2_ITERATIONS = 200000;
+
+const SECRET_KEYS = /pass|secret|token|key|otp|pin/i;
+
+const readPassphrase = (variable: string = DEFAULT_PASSPHRASE_ENV) => {
+  const passphrase = process.env[variable];
+  if (!passphrase) throw new SevereServiceError(`Passphrase variable ${variable} is not set`);
+  return passphrase;
+};
+
+const deriveKey = (passphrase: string, salt: string, iterations: number) => {
+  const forge = require('node-forge');
+  return forge.pkcs5.pbkdf2(passphrase, salt, iterations, 32, forge.md.sha256.create());
+};
+
+/**
+ * AES-256-GCM with a PBKDF2 key, a fresh salt and iv on every call so rotating also re-keys the file
+ */
+export const encryptCredentials = (credentials: any[], passphrase: string): encryptedCredentials => {
+  const forge = require('node-forge');
+  const salt = forge.random.getBytesSync(16);
+  const iv = forge.random.getBytesSync(12);
+  const cipher = forge.cipher.createCipher('AES-GCM', deriveKey(passphrase, salt, PBKDF2_ITERATIONS));
+  cipher.start({ iv });
+  cipher.update(forge.util.createBuffer(forge.util.encodeUtf8(JSON.stringify(credentials))));
+  cipher.finish();
+  return {
+    version: 1,
+    kdf: 'pbkdf2-sha256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: forge.util.encode64(salt),
+    iv: forge.util.encode64(iv),
+    tag: forge.util.encode64(cipher.mode.tag.getBytes()),
+    data: forge.util.encode64(cipher.output.getBytes()),
+  };
+};
+
+export const decryptCredentials = (encrypted: encryptedCredentials, passphrase: string): any[] => {
+  const forge = require('node-forge');
+  const key = deriveKey(passphrase, forge.util.decode64(encrypted.salt), encrypted.iterations);
+  const decipher = forge.cipher.createDecipher('AES-GCM', key);
+  decipher.start({ iv: forge.util.decode64(encrypted.iv), tag: forge.util.createBuffer(forge.util.decode64(encrypted.tag)) });
+  decipher.update(forge.util.createBuffer(forge.util.decode64(encrypted.data)));
+  if (!decipher.finish()) throw new SevereServiceError('Unable to decrypt credentials, wrong passphrase or tampered file');
+  return JSON.parse(forge.util.decodeUtf8(decipher.output.getBytes()));
+};
+
+export const readCredentialsFile = (path: string): any[] => {
+  const file = resolve(path);
+  if (!existsSync(file)) throw new SevereServiceError(`Credentials file ${file} not found`);
+  const content = readFileSync(file, 'utf-8');
+  return /\.ya?ml$/i.test(file) ? require('js-yaml').load(content) : JSON.parse(content);
+};
+
+const providers = new Map<string, (options: credentialSource) => CredentialProvider>();
+
+export const registerCredentialProvider = (source: string, factory: (options: credentialSource) => CredentialProvider) => {
+  providers.set(source, factory);
+};
+
+registerCredentialProvider('inline', (options) => ({ load: () => options.values ?? [] }));
+
+registerCredentialProvider('env', (options) => ({
+  load: () => {
+    const value = process.env[options.variable];
+    if (!value) throw new SevereServiceError(`Credentials variable ${options.variable} is not set`);
+    return JSON.parse(value);
+  },
+}));
+
+registerCredentialProvider('file', (options) => ({ load: () => readCredentialsFile(options.path) }));
+
+registerCredentialProvider('encrypted', (options) => ({
+  load: () => decryptCredentials(JSON.parse(readFileSync(resolve(options.path), 'utf-8')), readPassphrase(options.passphraseEnv)),
+}));
+
+export const loadCredentials = (credentials: credentialSource): any[] => {
+  const factory = providers.get(credentials.source);
+  if (!factory) throw new SevereServiceError(`Unknown credential source '${credentials.source}'`);
+  const pool = factory(credentials).load();
+  if (!Array.isArray(pool)) throw new SevereServiceError(`Credential source '${credentials.source}' did not return a list`);
+  return pool;
+};
+
+const collectSecrets = (value: any, secrets: Set<string>, secret = false) => {
+  if (typeof value === 'string' || typeof value === 'number') secret && `${value}`.length && secrets.add(`${value}`);
+  else if (Array.isArray(value)) value.forEach((entry) => collectSecrets(entry, secrets, secret));
+  else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, entry]) => collectSecrets(entry, secrets, secret || SECRET_KEYS.test(key)));
+  }
+  return secrets;
+};
+
+/**
+ * Returns a function that turns anything into a loggable string with every secret field value of `credentials`
+ * (password, token, otp, ... keys) replaced by ***, also where a secret appears JSON-escaped (a password with " or \).
+ * Objects have their secret keys redacted before they are stringified.
+ */
+export const createMasker = (credentials: any[]) => {
+  const raw = [...collectSecrets(credentials, new Set())];
+  const secrets = [...new Set([...raw, ...raw.map((secret) => JSON.stringify(secret).slice(1, -1))])].sort((a, b) => b.length - a.length);
+  const redact = (key: string, entry: any) => (SECRET_KEYS.test(key) && ['string', 'number'].includes(typeof entry) ? '***' : entry);
+  return (value: any) => {
+    let text = typeof value === 'string' ? value : value instanceof Error ? (value.stack ?? value.message) : JSON.stringify(value, redact);
+    secrets.forEach((secret) => (text = `${text}`.split(secret).join('***')));
+    return text;
+  };
+};
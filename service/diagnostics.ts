@@ -0,0 +1,56 @@
+/**
+ * @author R,Mithun
+ * @module Diagnostics
+ * Saves what the browser showed when something failed, into the given folder:
+ * - screenshot.png, page.html, url.txt
+ * - browser.log, the browser console where the driver supports log types (chrome, edge)
+ * - network.json, the requests, responses and failures of the page on chrome, which needs
+ *   'goog:loggingPrefs': { performance: 'ALL' } in the capability
+ * Every capture is attempted on its own, a dead session still leaves whatever could be saved
+ */
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+type performanceEntry = { timestamp: number; message: string };
+
+/**
+ * Reduces the chrome performance log to one entry per network event
+ */
+const saveNetworkLog = async (file: string, mask: (value: any) => string) => {
+  const entries = (await browser.getLogs('performance')) as performanceEntry[];
+  const events = entries
+    .map(({ timestamp, message }) => ({ time: new Date(timestamp).toISOString(), ...JSON.parse(message).message }))
+    .filter(({ method }) => method?.startsWith('Network.'))
+    .map(({ time, method, params }) => {
+      if (method === 'Network.requestWillBeSent') return { time, event: 'request', method: params.request.method, url: params.request.url };
+      if (method === 'Network.responseReceived') {
+        return { time, event: 'response', status: params.response.status, url: params.response.url, type: params.type };
+      }
+      if (method === 'Network.loadingFailed') return { time, event: 'failed', error: params.errorText, type: params.type };
+    })
+    .filter(Boolean);
+  writeFileSync(file, mask(JSON.stringify(events, null, 2)));
+};
+
+export const captureDiagnostics = async (folder: string, mask: (value: any) => string = (value) => `${value}`) => {
+  mkdirSync(folder, { recursive: true });
+  const captures: { [file: string]: () => Promise<any> } = {
+    'screenshot.png': () => browser.saveScreenshot(join(folder, 'screenshot.png')),
+    'page.html': async () => writeFileSync(join(folder, 'page.html'), mask(await browser.getPageSource())),
+    'url.txt': async () => writeFileSync(join(folder, 'url.txt'), mask(await browser.getUrl())),
+    'browser.log': async () => {
+      const logs = (await browser.getLogs('browser')) as { timestamp: number; level: string; message: string }[];
+      const lines = logs.map(({ timestamp, level, message }) => `${new Date(timestamp).toISOString()} ${level} ${message}`);
+      writeFileSync(join(folder, 'browser.log'), mask(lines.join('\n')));
+    },
+  };
+  if (browser.isChrome) captures['network.json'] = () => saveNetworkLog(join(folder, 'network.json'), mask);
+  const saved: string[] = [];
+  for (const [file, capture] of Object.entries(captures)) {
+    await capture().then(
+      () => saved.push(join(folder, file)),
+      (err) => console.error(`Unable to save ${file} to ${folder}: ${err.message}`)
+    );
+  }
+  return saved;
+};
@@ -0,0 +1,167 @@
+/**
+ * @author R,Mithun
+ * @module Downloads
+ * Gives every worker its own download folder (<dir>/<cid>) so parallel sessions can not overwrite each other's files
+ * - chrome, edge and firefox capabilities are pointed at the folder before the session starts
+ * - the folder is emptied before every test and removed once the worker is done
+ * Adds the browser commands:
+ * - getDownloadDir(): the folder of this worker
+ * - waitForDownload(pattern, timeout?): waits for a finished file matching a glob or RegExp, partial .crdownload/.part
+ *   files are waited out, resolves with the path of the file
+ * - readDownload(file): parses the file (relative to the folder or absolute), .csv (rows), .xlsx/.xls (rows per sheet), .json and .zip ({ path, data } per entry),
+ *   other files are returned as a Buffer
+ */
+import type { Capabilities, Services, Options } from '@wdio/types';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { emptyDirSync, removeSync } from 'fs-extra';
+import { extname, join, resolve } from 'path';
+import * as XLSX from 'xlsx';
+import { toRegExp } from './glob';
+
+declare global {
+  namespace WebdriverIO {
+    interface Browser {
+      getDownloadDir: () => Promise<string>;
+      waitForDownload: (pattern: string | RegExp, timeout?: number) => Promise<string>;
+      readDownload: (file: string) => Promise<any>;
+    }
+  }
+}
+
+const PARTIAL = /\.(crdownload|part|tmp)$/i;
+
+/**
+ * The browser family of a browserName, in any case and with its aliases (Chrome, chromium, msedge, edge, Firefox)
+ */
+const getBrowserFamily = (browserName = '') => {
+  const name = browserName.toLowerCase();
+  if (['chrome', 'chromium', 'googlechrome'].includes(name)) return 'chrome';
+  if (['microsoftedge', 'msedge', 'edge'].includes(name)) return 'edge';
+  return name;
+};
+
+export const parseDownload = async (file: string) => {
+  switch (extname(file).toLowerCase()) {
+    case '.json':
+      return JSON.parse(readFileSync(file, 'utf-8'));
+    case '.csv': {
+      const book = XLSX.read(readFileSync(file, 'utf-8'), { type: 'string', raw: true });
+      return XLSX.utils.sheet_to_json(book.Sheets[book.SheetNames[0]], { defval: '' });
+    }
+    case '.xlsx':
+    case '.xls': {
+      const book = XLSX.read(readFileSync(file), { type: 'buffer' });
+      return Object.fromEntries(book.SheetNames.map((name) => [name, XLSX.utils.sheet_to_json(book.Sheets[name], { defval: '' })]));
+    }
+    case '.zip': {
+      const decompress = require('decompress');
+      const entries: { path: string; type: string; data: Buffer }[] = await decompress(file);
+      return entries.filter((entry) => entry.type === 'file').map(({ path, data }) => ({ path, data }));
+    }
+    default:
+      return readFileSync(file);
+  }
+};
+
+export default class Downloads implements Services.ServiceInstance {
+  _root: string;
+  _timeout: number;
+  _dir?: string;
+
+  constructor(
+    private _options: Services.ServiceOption,
+    private _capabilities: Capabilities.Capabilities,
+    private _config: Omit<Options.Testrunner, 'capabilities'>
+  ) {
+    this._root = resolve(this._options?.dir ?? join('resources', 'downloads'));
+    this._timeout = this._options?.timeout ?? 30000;
+  }
+
+  /**
+   * Points the download preferences of the browser at the folder of the worker
+   */
+  applyDownloadDir = (capabilities: Capabilities.Capabilities, dir: string) => {
+    const chromium = { 'download.default_directory': dir, 'download.prompt_for_download': false, directory_upgrade: true };
+    const family = getBrowserFamily(capabilities.browserName);
+    if (family === 'chrome') {
+      const options = (capabilities['goog:chromeOptions'] = capabilities['goog:chromeOptions'] ?? {});
+      options.prefs = { ...options.prefs, ...chromium };
+    } else if (family === 'edge') {
+      const options = (capabilities['ms:edgeOptions'] = capabilities['ms:edgeOptions'] ?? {});
+      options.prefs = { ...options.prefs, ...chromium };
+    } else if (family === 'firefox') {
+      const options = (capabilities['moz:firefoxOptions'] = capabilities['moz:firefoxOptions'] ?? {});
+      options.prefs = {
+        ...options.prefs,
+        'browser.download.dir': dir,
+        'browser.download.folderList': 2,
+        'browser.download.useDownloadDir': true,
+        'browser.helperApps.neverAsk.saveToDisk': [
+          'text/csv',
+          'application/json',
+          'application/zip',
+          'application/octet-stream',
+          'application/pdf',
+          'application/vnd.ms-excel',
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        ].join(','),
+        'pdfjs.disabled': true,
+      };
+    }
+  };
+
+  /**
+   * A file is finished once it matches, has no partial file next to it and its size did not change since the last poll,
+   * empty files included
+   */
+  waitForDownload = async (pattern: string | RegExp, timeout: number = this._timeout) => {
+    const matcher = toRegExp(pattern);
+    const sizes = new Map<string, number>();
+    let found = '';
+    await browser.waitUntil(
+      async () => {
+        const files = existsSync(this._dir!) ? readdirSync(this._dir!) : [];
+        const partial = files.filter((file) => PARTIAL.test(file));
+        const candidates = files.filter((file) => !PARTIAL.test(file) && matcher.test(file));
+        for (const file of candidates) {
+          if (partial.some((entry) => entry.startsWith(file))) continue;
+          const size = statSync(join(this._dir!, file)).size;
+          const stable = sizes.get(file) === size;
+          sizes.set(file, size);
+          if (stable) {
+            found = join(this._dir!, file);
+            return true;
+          }
+        }
+        return false;
+      },
+      { timeout, interval: 250, timeoutMsg: `No download matching ${matcher} finished in ${this._dir} within ${timeout}ms` }
+    );
+    return found;
+  };
+
+  beforeSession = (
+    config: Omit<Options.Testrunner, 'capabilities'>,
+    capabilities: Capabilities.Capabilities,
+    specs: string[],
+    cid: string
+  ) => {
+    this._dir = join(this._root, cid);
+    emptyDirSync(this._dir);
+    this.applyDownloadDir(capabilities, this._dir);
+  };
+
+  before = () => {
+    browser.addCommand('getDownloadDir', async () => this._dir!);
+    browser.addCommand('waitForDownload', this.waitForDownload);
+    browser.addCommand('readDownload', async (file: string) => parseDownload(resolve(this._dir!, file)));
+  };
+
+  beforeTest = () => {
+    this._dir && emptyDirSync(this._dir);
+  };
+
+  after = () => {
+    this._dir && removeSync(this._dir);
+  };
+}
@@ -4,29 +4,88 @@
  * This custom service is used for below functions:
  * - Download selenium standalone driver (pass the version from conf.ts file)
  * - Download all required browser drivers
- * - Start selenium server for above drivers
+ * - Check every installed driver with `--version` and download it again when the installation is broken
+ * - Start selenium server for above drivers on a free (or configured) port and stop it on completion
+ * - With mode 'direct' (or when java is missing) skip selenium and start every browser driver on its own free port
+ * - With topology 'hub-node' or 'distributed' (selenium 4) start a local grid from generated TOML configs instead of
+ *   standalone, sized by grid: { nodes, maxSessions, sessionTimeout, sessionRequestTimeout }
  * Selenium driver - Pass 'latest' to get the latest driver or pass specific versions
  * Browser driver - Pass 'latest' to get the latest driver or pass specific versions
+ * Either can also be passed as { version, mirror, sha256 } to download from an internal http(s) or file:// mirror
+ * laid out like the upstream storage, and to verify the downloaded artifact against a SHA-256 (string or map per version).
+ * With a mirror, 'latest' is read from a LATEST_RELEASE (LATEST_STABLE for edge/chromiumedge) file at the mirror root
+ * Chrome driver - Also accepts 'match-browser' to resolve the chromedriver matching the installed Chrome/Chromium
+ * (or { binary }) through the Chrome for Testing endpoints, which can be pointed elsewhere with { endpoint }
+ * Edge driver - edge and chromiumedge both use msedgedriver, pass a major version (e.g. '120') to get its latest release.
+ * Only one of them can be configured, both would drive MicrosoftEdge through the same webdriver.edge.driver property
+ * Lockfile - Resolved versions, urls and hashes are pinned in drivers.lock.json (option lockfile, relative paths are
+ * resolved from this folder like .drivers) once written by `wdio-hooks drivers install`, so 'latest' keeps resolving
+ * to the locked version until updated (option updateLock)
+ * Downloads - Run in parallel and are retried with backoff (retries, retryDelay), resuming partial files with HTTP Range.
+ * HTTPS_PROXY/HTTP_PROXY/NO_PROXY are honoured and caFile adds a custom CA to the trusted roots
  * Supports chrome, firefox, edge, chromiumedge
  */
 import type { Capabilities, Options, Services } from '@wdio/types';
 import { SevereServiceError } from 'webdriverio';
-import { existsSync, mkdirSync, createWriteStream, rmSync } from 'fs';
-import { resolve } from 'path';
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  createReadStream,
+  createWriteStream,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { createHash } from 'crypto';
 import { promisify } from 'util';
-import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
-import { Socket } from 'net';
+import { ChildProcessWithoutNullStreams, spawn, spawnSync } from 'child_process';
+import { cpus, homedir } from 'os';
+import { createServer, Socket } from 'net';
+import { rootCertificates } from 'tls';
 import * as stream from 'stream';
-import got from 'got';
+import got, { Agents } from 'got';
+import { HttpsProxyAgent } from 'https-proxy-agent';
 
 type driverType = 'chrome' | 'firefox' | 'edge' | 'chromiumedge' | 'selenium';
 
+type serverMode = 'selenium' | 'direct';
+
+type topology = 'standalone' | 'hub-node' | 'distributed';
+
+type gridOptions = { nodes: number; maxSessions: number; sessionTimeout: number; sessionRequestTimeout: number };
+
+type tomlTable = [string, { [key: string]: string | number | boolean }];
+
+type gridNode = { availability: string; maxSessions: number; slots?: any[] };
+
+type lockEntry = { requested: string; version: string; downloads: { [platform: string]: { url: string; sha256: string } } };
+
+export type driversLock = { lockfileVersion: number; drivers: { [K in driverType]?: lockEntry } };
+
+export type { driverType };
+
+type driverOption = {
+  version: string;
+  mirror?: string;
+  sha256?: string | { [version: string]: string };
+  binary?: string;
+  endpoint?: string;
+};
+
+type chromeForTestingDownloads = { chromedriver?: { platform: string; url: string }[] };
+
 const defaultOptions: { [K in driverType]: any } = {
   selenium: { baseUrl: 'https://github.com/SeleniumHQ/selenium/releases/download', fallback: '4.1.1' },
   chrome: { baseUrl: 'https://chromedriver.storage.googleapis.com', fallback: '100.0.4896.60' },
   firefox: { baseUrl: 'https://github.com/mozilla/geckodriver/releases/download', fallback: '0.30.0' },
   edge: { baseUrl: 'https://msedgedriver.azureedge.net', fallback: '97.0.1072.76' },
-  chromiumedge: { baseUrl: 'https://msedgedriver.azureedge.net' },
+  chromiumedge: { baseUrl: 'https://msedgedriver.azureedge.net', fallback: '97.0.1072.76' },
 };
 
 const DEFAULT_CONNECTION = {
@@ -36,36 +95,117 @@ const DEFAULT_CONNECTION = {
   path: '/wd/hub',
 };
 
+const INSTALLED_MARKER = '.installed';
+
+// the first name is the one selenium grid registers the driver under
+const BROWSER_NAMES: { [K in driverType]?: string[] } = {
+  chrome: ['chrome'],
+  firefox: ['firefox'],
+  edge: ['MicrosoftEdge', 'msedge'],
+  chromiumedge: ['MicrosoftEdge', 'msedge'],
+};
+
+const DRIVER_BINARIES: { [K in driverType]: string } = {
+  selenium: 'driver.jar',
+  chrome: 'chromedriver',
+  firefox: 'geckodriver',
+  edge: 'msedgedriver',
+  chromiumedge: 'msedgedriver',
+};
+
+const CHROME_FOR_TESTING = {
+  endpoint: 'https://googlechromelabs.github.io/chrome-for-testing',
+  storage: 'https://storage.googleapis.com/chrome-for-testing-public',
+  firstMajor: 115,
+};
+
 const sleep = (ms = 1) => new Promise((r) => setTimeout(r, ms));
 
+type connection = typeof DEFAULT_CONNECTION;
+
 export default class Driver implements Services.ServiceInstance {
   _platform: string;
   _arch: string;
   _javaPath: any;
   _rejectUnauthorized: boolean;
+  _ca?: string[];
+  _retries: number;
+  _retryDelay: number;
+  _proxyAgents: { [proxy: string]: HttpsProxyAgent };
   _seleniumVersion: string;
+  _driverOptions: { [K in driverType]?: driverOption };
   _requiredDrivers: driverType[];
   _seleniumArgs: string[];
   _javaArgs: string[];
   _startArgs: string[];
   _driverPaths: any;
+  _driverVersions: { [K in driverType]?: string };
+  _chromeDriverUrls: { [version: string]: string };
   _waitTime: number;
+  _connection: connection;
+  _logPath: string;
+  _mode: serverMode;
+  _driverConnections: { [K in driverType]?: connection };
+  _processes: ChildProcessWithoutNullStreams[];
+  _topology: topology;
+  _grid: gridOptions;
+  _lockPath: string;
+  _lock?: driversLock;
+  _updateLock: boolean;
 
   constructor(
     private _options: Services.ServiceOption,
     private _capabilities: Capabilities.RemoteCapability,
     private _config: Omit<Options.Testrunner, 'capabilities'>
   ) {
-    this._seleniumVersion = this._options?.selenium ? this._options.selenium : defaultOptions.selenium.fallback;
     this._requiredDrivers = this._options?.drivers ? (Object.keys(this._options.drivers) as driverType[]) : ['chrome'];
+    if (this._requiredDrivers.includes('edge') && this._requiredDrivers.includes('chromiumedge')) {
+      throw new SevereServiceError("Configure either 'edge' or 'chromiumedge', both install msedgedriver for MicrosoftEdge");
+    }
+    this._driverOptions = Object.fromEntries(
+      this._requiredDrivers.map((driver) => [driver, this.toDriverOption(this._options.drivers?.[driver] ?? 'latest')])
+    );
+    this._driverOptions.selenium = this.toDriverOption(this._options?.selenium ?? defaultOptions.selenium.fallback);
+    this._seleniumVersion = this._driverOptions.selenium.version;
     this._seleniumArgs = this._options?.seleniumArgs ? this._options.seleniumArgs : [];
     this._javaArgs = this._options?.javaArgs ? this._options.javaArgs : [];
     this._startArgs = [];
     this._rejectUnauthorized = this._options.hasOwnProperty('rejectUnauthorized') ? this._options.rejectUnauthorized : true;
+    if (this._options?.caFile && !existsSync(this._options.caFile)) {
+      throw new SevereServiceError(`caFile ${resolve(this._options.caFile)} not found`);
+    }
+    this._ca = this._options?.caFile ? [...rootCertificates, readFileSync(this._options.caFile, 'utf-8')] : undefined;
+    this._retries = this._options?.retries ?? 3;
+    this._retryDelay = this._options?.retryDelay ?? 1000;
+    this._proxyAgents = {};
     this._platform = process.platform;
     this._arch = process.arch;
     this._waitTime = this._options?.timeout ? this._options?.timeout : 60000;
     this._driverPaths = Object.fromEntries(this._requiredDrivers.map((driver) => [driver, '']));
+    this._driverVersions = {};
+    this._chromeDriverUrls = {};
+    this._connection = {
+      ...DEFAULT_CONNECTION,
+      hostname: this._options?.hostname ?? DEFAULT_CONNECTION.hostname,
+      port: this._options?.port ?? 0,
+      path: this._options?.path ?? DEFAULT_CONNECTION.path,
+    };
+    this._logPath = resolve(this._options?.logs ?? this._config?.outputDir ?? resolve(__dirname, '.logs'), 'selenium.log');
+    this._mode = this._options?.mode === 'direct' ? 'direct' : 'selenium';
+    this._driverConnections = {};
+    this._processes = [];
+    // resolved from the same base as .drivers, so the lock describes these drivers whatever the working directory
+    this._lockPath = resolve(__dirname, this._options?.lockfile ?? join('..', 'drivers.lock.json'));
+    this._lock = existsSync(this._lockPath) ? JSON.parse(readFileSync(this._lockPath, 'utf-8')) : undefined;
+    this._updateLock = !!this._options?.updateLock;
+    this._topology = this._options?.topology ?? 'standalone';
+    this._grid = {
+      nodes: 1,
+      maxSessions: cpus().length,
+      sessionTimeout: 300,
+      sessionRequestTimeout: 300,
+      ...this._options?.grid,
+    };
   }
 
   isPortReachable = async (port: number, params: { host: string; timeout: number }) => {
@@ -87,48 +227,256 @@ export default class Driver implements Services.ServiceInstance {
     });
   };
 
+  toDriverOption = (option: string | driverOption): driverOption => {
+    return typeof option === 'string' ? { version: option } : { ...option, version: option.version ?? 'latest' };
+  };
+
+  getBaseUrl = (driver: driverType) => {
+    const mirror = this._driverOptions[driver]?.mirror;
+    return mirror ? mirror.replace(/\/+$/, '') : defaultOptions[driver].baseUrl;
+  };
+
+  getPlatformKey = () => `${this._platform}-${this._arch}`;
+
+  getLockEntry = (driver: driverType, version: string) => {
+    const entry = this._lock?.drivers?.[driver];
+    return entry?.version === version ? entry.downloads?.[this.getPlatformKey()] : undefined;
+  };
+
+  getChecksum = (driver: driverType, version: string) => {
+    const sha256 = this._driverOptions[driver]?.sha256;
+    const checksum = (typeof sha256 === 'string' ? sha256 : sha256?.[version]) ?? this.getLockEntry(driver, version)?.sha256;
+    return checksum?.toLowerCase();
+  };
+
+  /**
+   * Reads a small text file over http(s) or file://. The msedgedriver LATEST_* files are UTF-16 with a BOM
+   */
+  fetchText = async (url: string) => {
+    const body = url.startsWith('file:')
+      ? readFileSync(fileURLToPath(url))
+      : (await got.get(url, { ...this.getRequestOptions(url), timeout: 10000, responseType: 'buffer' })).body;
+    const utf16 = body[0] === 0xff && body[1] === 0xfe;
+    return (utf16 ? body.toString('utf16le') : body.toString('utf-8')).replace(/^\uFEFF/, '');
+  };
+
+  isProxyBypassed = (url: URL) => {
+    const noProxy = process.env.NO_PROXY ?? process.env.no_proxy ?? '';
+    return noProxy
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .some((entry) => {
+        if (entry === '*') return true;
+        const [host, port] = entry.split(':');
+        const domain = host.replace(/^\*?\./, '');
+        return (!port || port === url.port) && (url.hostname === domain || url.hostname.endsWith('.' + domain));
+      });
+  };
+
+  getProxyAgent = (target: string): Agents | undefined => {
+    const url = new URL(target);
+    if (!/^https?:$/.test(url.protocol) || this.isProxyBypassed(url)) return undefined;
+    const { env } = process;
+    const proxy = url.protocol === 'https:' ? (env.HTTPS_PROXY ?? env.https_proxy) : (env.HTTP_PROXY ?? env.http_proxy);
+    if (!proxy) return undefined;
+    const { protocol, hostname: host, port, username, password } = new URL(proxy);
+    const auth = username ? `${decodeURIComponent(username)}:${decodeURIComponent(password)}` : undefined;
+    this._proxyAgents[proxy] = this._proxyAgents[proxy] ?? new HttpsProxyAgent({ protocol, host, port, auth, ca: this._ca });
+    return { http: this._proxyAgents[proxy], https: this._proxyAgents[proxy] };
+  };
+
+  getRequestOptions = (url: string) => ({
+    agent: this.getProxyAgent(url),
+    https: { rejectUnauthorized: this._rejectUnauthorized, certificateAuthority: this._ca },
+  });
+
+  fetchJson = async (url: string) => JSON.parse(await this.fetchText(url));
+
+  getChromeForTestingEndpoint = () => {
+    const endpoint = this._driverOptions.chrome?.endpoint ?? CHROME_FOR_TESTING.endpoint;
+    return endpoint.replace(/\/+$/, '');
+  };
+
+  getChromeForTestingPlatform = () => {
+    if (this._platform === 'linux') return 'linux64';
+    if (this._platform === 'darwin') return this._arch === 'arm64' ? 'mac-arm64' : 'mac-x64';
+    return this._arch === 'x64' ? 'win64' : 'win32';
+  };
+
+  rememberChromeDriverUrl = (version: string, downloads?: chromeForTestingDownloads) => {
+    const platform = this.getChromeForTestingPlatform();
+    const download = downloads?.chromedriver?.find((entry) => entry.platform === platform);
+    if (download) this._chromeDriverUrls[version] = download.url;
+    return !!download;
+  };
+
+  getChromeBinaryCandidates = () => {
+    const which = require('which');
+    switch (this._platform) {
+      case 'linux':
+        return ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser']
+          .map((name) => which.sync(name, { nothrow: true }))
+          .filter(Boolean) as string[];
+      case 'darwin':
+        return ['Google Chrome.app/Contents/MacOS/Google Chrome', 'Chromium.app/Contents/MacOS/Chromium'].flatMap((app) => [
+          resolve('/Applications', app),
+          resolve(homedir(), 'Applications', app),
+        ]);
+      default:
+        return [process.env.PROGRAMFILES, process.env['PROGRAMFILES(X86)'], process.env.LOCALAPPDATA]
+          .filter(Boolean)
+          .flatMap((root) => [resolve(root!, 'Google/Chrome/Application/chrome.exe'), resolve(root!, 'Chromium/Application/chrome.exe')]);
+    }
+  };
+
+  getInstalledChromeVersion = () => {
+    const configured = this._driverOptions.chrome?.binary;
+    const binary = configured ?? this.getChromeBinaryCandidates().find((candidate) => existsSync(candidate));
+    if (!binary) throw new SevereServiceError('Unable to find an installed Chrome/Chromium, pass its path as drivers.chrome.binary');
+    // chrome.exe does not print its version, so read it from the file metadata on windows, quotes in a single-quoted
+    // powershell string are escaped by doubling them
+    const command = `(Get-Item -LiteralPath '${binary.replace(/'/g, "''")}').VersionInfo.ProductVersion`;
+    const output =
+      this._platform === 'win32'
+        ? spawnSync('powershell', ['-NoProfile', '-Command', command], { encoding: 'utf-8' })
+        : spawnSync(binary, ['--version'], { encoding: 'utf-8' });
+    const version = `${output.stdout ?? ''}`.match(/\d+\.\d+\.\d+\.\d+/)?.[0];
+    if (!version) throw new SevereServiceError(`Unable to read the version of ${binary}\n ${output.stderr ?? output.error ?? ''}`);
+    console.log(`Found Chrome ${version} at ${binary}`);
+    return version;
+  };
+
+  /**
+   * Picks the chromedriver for the installed browser: the exact version when Chrome for Testing has it, otherwise the
+   * newest one of the same build (MAJOR.MINOR.BUILD), then of the same major. Browsers before 115 use the old storage
+   * (or the mirror, which then needs LATEST_RELEASE_MAJOR.MINOR.BUILD files).
+   */
+  getMatchingChromeDriverVersion = async () => {
+    const browserVersion = this.getInstalledChromeVersion();
+    const [major, minor, build] = browserVersion.split('.');
+    if (Number(major) < CHROME_FOR_TESTING.firstMajor) {
+      const url = `${this.getBaseUrl('chrome')}/LATEST_RELEASE_${major}.${minor}.${build}`;
+      const data = await this.fetchText(url).catch((err) => {
+        throw new SevereServiceError(`Unable to find a chromedriver for Chrome ${browserVersion} at ${url}\n ${err}`);
+      });
+      return data.replace(/\r|\n/g, '').replace(/[^\d|.]/g, '');
+    }
+    const url = this.getChromeForTestingEndpoint() + '/known-good-versions-with-downloads.json';
+    const data = await this.fetchJson(url).catch((err) => {
+      throw new SevereServiceError(`Unable to fetch chromedriver versions from ${url}\n ${err}`);
+    });
+    const platform = this.getChromeForTestingPlatform();
+    const available = ((data?.versions ?? []) as { version: string; downloads: chromeForTestingDownloads }[])
+      .filter((entry) => entry.downloads?.chromedriver?.some((download) => download.platform === platform))
+      .reverse();
+    const match =
+      available.find((entry) => entry.version === browserVersion) ??
+      available.find((entry) => entry.version.startsWith(`${major}.${minor}.${build}.`)) ??
+      available.find((entry) => entry.version.startsWith(`${major}.`));
+    if (!match) throw new SevereServiceError(`No chromedriver for Chrome ${browserVersion} (${platform}) listed at ${url}`);
+    this.rememberChromeDriverUrl(match.version, match.downloads);
+    return match.version;
+  };
+
+  isEdgeDriver = (driver: driverType) => driver === 'edge' || driver === 'chromiumedge';
+
+  getLatestEdgeDriverForMajor = async (driver: driverType, major: string) => {
+    const os = this._platform === 'linux' ? 'LINUX' : this._platform === 'darwin' ? 'MACOS' : 'WINDOWS';
+    const url = `${this.getBaseUrl(driver)}/LATEST_RELEASE_${major}_${os}`;
+    const data = await this.fetchText(url).catch((err) => {
+      throw new SevereServiceError(`Unable to find a msedgedriver release for Edge ${major} at ${url}\n ${err}`);
+    });
+    return data.replace(/\r|\n/g, '').replace(/[^\d|.]/g, '');
+  };
+
+  resolveDriverVersion = async (driver: driverType) => {
+    const configuredVersion = this._driverOptions[driver]!.version;
+    const locked = this._lock?.drivers?.[driver];
+    if (locked && !this._updateLock && locked.requested === configuredVersion) return locked.version;
+    if (configuredVersion === 'latest' && driver === 'selenium') return await this.getLatestSeleniumVersion();
+    if (configuredVersion === 'latest') return await this.getLatestVersionDetails(driver);
+    if (configuredVersion === 'match-browser' && driver === 'chrome') return await this.getMatchingChromeDriverVersion();
+    if (this.isEdgeDriver(driver) && /^\d+$/.test(configuredVersion)) {
+      return await this.getLatestEdgeDriverForMajor(driver, configuredVersion);
+    }
+    return configuredVersion;
+  };
+
+  getFreePort = async (host: string) => {
+    return new Promise<number>((resolve, reject) => {
+      const server = createServer();
+      server.unref();
+      server.once('error', reject);
+      server.listen(0, host, () => {
+        const address = server.address();
+        const port = typeof address === 'object' && address ? address.port : 0;
+        server.close(() => (port ? resolve(port) : reject(new Error('Unable to allocate a free port'))));
+      });
+    });
+  };
+
+  allocatePort = async (connection: connection = this._connection) => {
+    const { hostname, port } = connection;
+    if (port) {
+      const used = await this.isPortReachable(port, { host: hostname, timeout: 100 });
+      if (used) throw new SevereServiceError(`Port ${port} is already in use.`);
+    } else {
+      connection.port = await this.getFreePort(hostname);
+    }
+  };
+
   checkDependencies = () => {
+    if (this._mode === 'direct') return;
     try {
       const which = require('which');
       this._javaPath = which.sync('java');
     } catch (err) {
-      throw new SevereServiceError('Driver setup failed at dependency check: ' + err);
+      // an explicit selenium mode needs java, otherwise the browser drivers can serve webdriver on their own
+      if (this._options?.mode === 'selenium') throw new SevereServiceError('Driver setup failed at dependency check: ' + err);
+      console.warn('java not found, starting the browser drivers directly without selenium');
+      this._mode = 'direct';
     }
   };
 
   createDriversFolderIfNotPresent = () => {
-    const driversFolder = resolve(__dirname, '.drivers');
+    const driversFolder = this.getDriversRoot();
     !existsSync(driversFolder) && mkdirSync(driversFolder, { recursive: true });
   };
 
   getLatestVersionDetails = async (driverName: driverType) => {
     let data;
     let url = '';
+    const mirror = this._driverOptions[driverName]?.mirror;
+    if (mirror) {
+      const latestFile = this.isEdgeDriver(driverName) ? 'LATEST_STABLE' : 'LATEST_RELEASE';
+      url = `${this.getBaseUrl(driverName)}/${latestFile}`;
+      data = await this.fetchText(url).catch((err) =>
+        console.error(`Issue fetching latest ${driverName} version from mirror ${url}: ${err}`)
+      );
+      data = data?.replace(/\r|\n/g, '').replace(/[^\d|.]/g, '');
+      return data ? data : defaultOptions[driverName].fallback;
+    }
     switch (driverName) {
       case 'chrome':
-        url = defaultOptions[driverName].baseUrl + '/LATEST_RELEASE';
-        data = await got
-          .get(url, { timeout: 10000, https: { rejectUnauthorized: this._rejectUnauthorized } })
-          .catch((err) => console.log(`Issue fetching latest chrome version${err}`));
-        data = data?.body.replace(/\r|\n/g, '').replace(/[^\d|.]/g, '');
+        url = this.getChromeForTestingEndpoint() + '/last-known-good-versions-with-downloads.json';
+        data = await this.fetchJson(url).catch((err) => console.log(`Issue fetching latest chrome version${err}`));
+        data = data?.channels?.Stable;
+        data && this.rememberChromeDriverUrl(data.version, data.downloads);
+        data = data?.version;
         break;
       case 'firefox':
         url = 'https://api.github.com/repos/mozilla/geckodriver/releases/latest';
-        data = await got(url, { timeout: 10000, responseType: 'json', https: { rejectUnauthorized: this._rejectUnauthorized } }).catch(
-          (err) => console.log(`Issue fetching latest firefox version${err}`)
+        data = await got(url, { ...this.getRequestOptions(url), timeout: 10000, responseType: 'json' }).catch((err) =>
+          console.log(`Issue fetching latest firefox version${err}`)
         );
         data = data?.body as any;
         data = data?.name;
         break;
       case 'edge':
-        data = defaultOptions[driverName].fallback;
-        break;
       case 'chromiumedge':
-        url = 'https://msedgewebdriverstorage.blob.core.windows.net/edgewebdriver/LATEST_STABLE';
-        data = await got
-          .get(url, { timeout: 10000, https: { rejectUnauthorized: this._rejectUnauthorized } })
-          .catch((err) => console.error('Issue fetching latest chromiumedge version'));
-        data = data?.body.replace(/\r|\n/g, '').replace(/[^\d|.]/g, '');
+        url = this.getBaseUrl(driverName) + '/LATEST_STABLE';
+        data = await this.fetchText(url).catch((err) => console.error(`Issue fetching latest ${driverName} version${err}`));
+        data = data?.replace(/\r|\n/g, '').replace(/[^\d|.]/g, '');
         break;
     }
     return data ? data : defaultOptions[driverName].fallback;
@@ -138,7 +486,7 @@ export default class Driver implements Services.ServiceInstance {
     const v4 = version.startsWith('4');
     const hasSuffix = !/^\d+\.\d+\.\d+$/i.test(version);
     const [major, minor] = version.split('.');
-    const baseUrl = defaultOptions.selenium.baseUrl;
+    const baseUrl = this.getBaseUrl('selenium');
     const jarPath = v4 ? (hasSuffix ? `selenium-${version}` : `selenium-${major}.${minor}.0`) : `selenium-${version}`;
     const jarName = v4 ? `selenium-server-${version}.jar` : `selenium-server-standalone-${version}.jar`;
     return `${baseUrl}/${jarPath}/${jarName}`;
@@ -157,8 +505,14 @@ export default class Driver implements Services.ServiceInstance {
         }
         break;
       case 'chromiumedge':
-        break;
       case 'edge':
+        if (this._platform === 'linux') {
+          platform = 'linux64';
+        } else if (this._platform === 'darwin') {
+          platform = 'mac64' + (this._arch === 'arm64' ? '_m1' : '');
+        } else {
+          platform = this._arch === 'arm64' ? 'arm64' : this._arch === 'x64' ? 'win64' : 'win32';
+        }
         break;
       case 'firefox':
         if (this._platform === 'linux') {
@@ -174,7 +528,14 @@ export default class Driver implements Services.ServiceInstance {
   };
 
   getChromeDriverDownloadUrl = (version: string) => {
-    const baseUrl = defaultOptions.chrome.baseUrl;
+    if (Number(version.split('.')[0]) >= CHROME_FOR_TESTING.firstMajor) {
+      const platform = this.getChromeForTestingPlatform();
+      const mirror = this._driverOptions.chrome?.mirror;
+      const baseUrl = mirror ? this.getBaseUrl('chrome') : CHROME_FOR_TESTING.storage;
+      const defaultUrl = `${baseUrl}/${version}/${platform}/chromedriver-${platform}.zip`;
+      return mirror ? defaultUrl : (this._chromeDriverUrls[version] ?? defaultUrl);
+    }
+    const baseUrl = this.getBaseUrl('chrome');
     const zipPathName = version;
     const archData = this.getDriverArchData('chrome');
     const zipFileName = `chromedriver_${archData}.zip`;
@@ -182,26 +543,167 @@ export default class Driver implements Services.ServiceInstance {
   };
 
   getFirefoxDriverDownloadUrl = (version: string) => {
-    const baseUrl = defaultOptions.firefox.baseUrl;
+    const baseUrl = this.getBaseUrl('firefox');
     const archData = this.getDriverArchData('firefox');
     return `${baseUrl}/v${version}/geckodriver-v${version}-${archData}`;
   };
 
-  getEdgeDriverDownloadUrl = (version: string) => {};
+  getEdgeDriverDownloadUrl = (version: string) => {
+    const baseUrl = this.getBaseUrl('edge');
+    const archData = this.getDriverArchData('edge');
+    return `${baseUrl}/${version}/edgedriver_${archData}.zip`;
+  };
 
-  getChromiumEdgeDriverDownloadUrl = (version: string) => {};
+  getChromiumEdgeDriverDownloadUrl = (version: string) => {
+    const baseUrl = this.getBaseUrl('chromiumedge');
+    const archData = this.getDriverArchData('chromiumedge');
+    return `${baseUrl}/${version}/edgedriver_${archData}.zip`;
+  };
 
-  downloadFromUrlToDestination = async (url: string, destination: string, parentFolder: string) => {
-    const downloadOptions = { https: { rejectUnauthorized: this._rejectUnauthorized } };
-    const downloadStream = got.stream(url, downloadOptions);
-    const fileWriterStream = createWriteStream(destination);
-    const pipeline = promisify(stream.pipeline);
-    await pipeline(downloadStream, fileWriterStream)
-      .then(() => console.log(`File downloaded to ${destination}`))
-      .catch((error) => {
-        rmSync(parentFolder, { recursive: true, force: true });
-        throw new SevereServiceError(`Something went wrong while trying to download from ${url}\n ${error.message}`);
-      });
+  /**
+   * One download attempt into `partFile`. When the part file already holds data it asks for the rest with a Range
+   * request and appends, falling back to a full download when the server ignores the range. Returns the SHA-256 of the
+   * whole file and fails when fewer bytes arrive than announced.
+   */
+  downloadToPartFile = async (url: string, partFile: string) => {
+    const label = url.split('/').pop();
+    const offset = existsSync(partFile) ? statSync(partFile).size : 0;
+    const isFile = url.startsWith('file:');
+    const downloadStream = isFile
+      ? createReadStream(fileURLToPath(url), { start: offset })
+      : got.stream(url, { ...this.getRequestOptions(url), headers: offset ? { range: `bytes=${offset}-` } : {}, retry: 0 });
+    let append = isFile && offset > 0;
+    let expected: number | undefined;
+    if (!isFile) {
+      const response: any = await new Promise((resolve, reject) => downloadStream.once('response', resolve).once('error', reject));
+      append = offset > 0 && response.statusCode === 206;
+      const length = Number(response.headers['content-length']);
+      expected = !response.headers['content-encoding'] && length ? length : undefined;
+    }
+    const hash = createHash('sha256');
+    if (append) {
+      await this.hashFile(partFile, hash);
+      console.log(`Resuming download of ${label} from ${offset} bytes`);
+    }
+    let received = 0;
+    let reported = 0;
+    downloadStream.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      hash.update(chunk);
+    });
+    downloadStream.on('downloadProgress', ({ percent }: { percent: number }) => {
+      const step = Math.floor(percent * 4) * 25;
+      if (step > reported) {
+        reported = step;
+        console.log(`Downloading ${label}: ${step}%`);
+      }
+    });
+    const fileWriterStream = createWriteStream(partFile, { flags: append ? 'a' : 'w' });
+    await promisify(stream.pipeline)(downloadStream, fileWriterStream);
+    if (expected !== undefined && received !== expected) {
+      throw new Error(`Download truncated, received ${received} of ${expected} bytes`);
+    }
+    return hash.digest('hex');
+  };
+
+  isRetryableDownloadError = (error: any) => {
+    if (error?.name !== 'HTTPError') return true;
+    const status = error.response.statusCode;
+    return status >= 500 || [408, 416, 429].includes(status);
+  };
+
+  /**
+   * Downloads into a `.part` file, retrying with exponential backoff and resuming what already arrived. The file only
+   * moves to `destination` once complete and, when given, matching `checksum`. A mismatch removes `parentFolder`, other
+   * failures keep the part file so the next run resumes it.
+   */
+  downloadFromUrlToDestination = async (url: string, destination: string, parentFolder: string, checksum?: string) => {
+    const partFile = destination + '.part';
+    let actual = '';
+    for (let attempt = 0; !actual; attempt++) {
+      try {
+        actual = await this.downloadToPartFile(url, partFile);
+      } catch (error) {
+        // the server could not serve the requested range, the part file is stale
+        error?.response?.statusCode === 416 && rmSync(partFile, { force: true });
+        if (attempt >= this._retries || !this.isRetryableDownloadError(error)) {
+          throw new SevereServiceError(`Something went wrong while trying to download from ${url}\n ${error.message}`);
+        }
+        const delay = this._retryDelay * 2 ** attempt;
+        console.warn(`Download from ${url} failed (${error.message}), retrying in ${delay}ms [${attempt + 1}/${this._retries}]`);
+        await sleep(delay);
+      }
+    }
+    if (checksum && actual !== checksum) {
+      rmSync(parentFolder, { recursive: true, force: true });
+      throw new SevereServiceError(
+        `Something went wrong while trying to download from ${url}\n Checksum mismatch, expected sha256 ${checksum} but got ${actual}`
+      );
+    }
+    renameSync(partFile, destination);
+    console.log(`File downloaded to ${destination}`);
+    return actual;
+  };
+
+  hashFile = async (file: string, hash = createHash('sha256')) => {
+    await new Promise((resolve, reject) =>
+      createReadStream(file)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', resolve)
+        .on('error', reject)
+    );
+    return hash.copy().digest('hex');
+  };
+
+  getDriversRoot = () => resolve(__dirname, '.drivers');
+
+  getDriverFolder = (driver: driverType, version: string) => resolve(this.getDriversRoot(), driver, version);
+
+  getDriverBinaryName = (driver: driverType) => {
+    const binary = DRIVER_BINARIES[driver];
+    return this._platform === 'win32' && driver !== 'selenium' ? binary + '.exe' : binary;
+  };
+
+  makeExecutable = (binary: string) => {
+    if (this._platform !== 'win32' && existsSync(binary)) chmodSync(binary, 0o755);
+  };
+
+  isInstalled = (folder: string) => existsSync(resolve(folder, INSTALLED_MARKER));
+
+  markInstalled = (folder: string, url: string, sha256: string) => {
+    writeFileSync(resolve(folder, INSTALLED_MARKER), JSON.stringify({ url, sha256, installedAt: new Date().toISOString() }));
+  };
+
+  readInstalledMarker = (folder: string): { url: string; sha256: string; installedAt: string } | undefined => {
+    return this.isInstalled(folder) ? JSON.parse(readFileSync(resolve(folder, INSTALLED_MARKER), 'utf-8')) : undefined;
+  };
+
+  /**
+   * Cleans a version folder left behind by an interrupted download so it is fetched again instead of reused, partial
+   * `.part` downloads are kept so they can be resumed
+   */
+  prepareFolder = (folder: string) => {
+    if (this.isInstalled(folder)) return false;
+    if (existsSync(folder)) {
+      console.warn(`Cleaning up incomplete driver installation at ${folder}`);
+      readdirSync(folder)
+        .filter((entry) => !entry.endsWith('.part'))
+        .forEach((entry) => rmSync(resolve(folder, entry), { recursive: true, force: true }));
+    }
+    mkdirSync(folder, { recursive: true });
+    return true;
+  };
+
+  /**
+   * Chrome for Testing archives wrap the binary in a `chromedriver-<platform>/` folder, move its content next to the
+   * other driver files so both archive layouts end up the same
+   */
+  flattenArchiveFolder = (folder: string, prefix: string) => {
+    const nested = readdirSync(folder, { withFileTypes: true }).find((entry) => entry.isDirectory() && entry.name.startsWith(prefix));
+    if (!nested) return;
+    const nestedFolder = resolve(folder, nested.name);
+    readdirSync(nestedFolder).forEach((entry) => renameSync(resolve(nestedFolder, entry), resolve(folder, entry)));
+    rmSync(nestedFolder, { recursive: true, force: true });
   };
 
   unzipFile = async (input: string, output: string) => {
@@ -216,69 +718,167 @@ export default class Driver implements Services.ServiceInstance {
       });
   };
 
+  getLatestSeleniumVersion = async () => {
+    return this._driverOptions.selenium?.mirror ? await this.getLatestVersionDetails('selenium') : defaultOptions.selenium.fallback;
+  };
+
   downloadSeleniumDriver = async (version: string) => {
-    const seleniumVersion: string = version === 'latest' ? defaultOptions.selenium.fallback : version;
-    const seleniumFolder = resolve(__dirname, '.drivers', 'selenium', seleniumVersion);
+    const seleniumVersion: string = version === 'latest' ? await this.resolveDriverVersion('selenium') : version;
+    const seleniumFolder = this.getDriverFolder('selenium', seleniumVersion);
+    const checksum = this.getChecksum('selenium', seleniumVersion);
+    const fileName = this.getDriverBinaryName('selenium');
+    const seleniumInstallationFolder = seleniumFolder + '/' + fileName;
     this._seleniumVersion = seleniumVersion;
-    if (!existsSync(seleniumFolder)) {
-      mkdirSync(seleniumFolder, { recursive: true });
+    if (this.isInstalled(seleniumFolder) && checksum && (await this.hashFile(seleniumInstallationFolder).catch(() => '')) !== checksum) {
+      console.warn(`Checksum of ${seleniumInstallationFolder} does not match, downloading it again`);
+      rmSync(seleniumFolder, { recursive: true, force: true });
+    }
+    if (this.prepareFolder(seleniumFolder)) {
       const url = this.getSeleniumDownloadUrl(seleniumVersion);
-      const fileName = 'driver.jar';
-      const seleniumInstallationFolder = seleniumFolder + '/' + fileName;
-      await this.downloadFromUrlToDestination(url, seleniumInstallationFolder, seleniumFolder);
+      const sha256 = await this.downloadFromUrlToDestination(url, seleniumInstallationFolder, seleniumFolder, checksum);
+      this.markInstalled(seleniumFolder, url, sha256);
     }
-    this._driverPaths['selenium'] = resolve(seleniumFolder, 'driver.jar');
+    this._driverPaths['selenium'] = resolve(seleniumFolder, fileName);
   };
 
   downloadChromeDriver = async (version: string) => {
-    const chromeFolder = resolve(__dirname, '.drivers', 'chrome', version);
-    if (!existsSync(chromeFolder)) {
-      mkdirSync(chromeFolder, { recursive: true });
+    const chromeFolder = this.getDriverFolder('chrome', version);
+    const binary = resolve(chromeFolder, this.getDriverBinaryName('chrome'));
+    if (this.prepareFolder(chromeFolder)) {
       const url = this.getChromeDriverDownloadUrl(version);
+      const checksum = this.getChecksum('chrome', version);
       const zipFileName = 'driver.zip';
       const chromeDownloadFolder = chromeFolder + '/' + zipFileName;
-      await this.downloadFromUrlToDestination(url, chromeDownloadFolder, chromeFolder);
+      const sha256 = await this.downloadFromUrlToDestination(url, chromeDownloadFolder, chromeFolder, checksum);
       await this.unzipFile(chromeDownloadFolder, chromeFolder);
+      this.flattenArchiveFolder(chromeFolder, 'chromedriver-');
+      this.makeExecutable(binary);
+      this.markInstalled(chromeFolder, url, sha256);
     }
-    this._driverPaths['chrome'] = resolve(chromeFolder, 'chromedriver.exe');
+    this._driverPaths['chrome'] = binary;
   };
 
   downloadFirefoxDriver = async (version: string) => {
-    const firefoxFolder = resolve(__dirname, '.drivers', 'firefox', version);
-    if (!existsSync(firefoxFolder)) {
-      mkdirSync(firefoxFolder, { recursive: true });
+    const firefoxFolder = this.getDriverFolder('firefox', version);
+    const binary = resolve(firefoxFolder, this.getDriverBinaryName('firefox'));
+    if (this.prepareFolder(firefoxFolder)) {
       const url = this.getFirefoxDriverDownloadUrl(version);
+      const checksum = this.getChecksum('firefox', version);
       const zipFileName = 'driver-' + this.getDriverArchData('firefox');
       const firefoxDownloadFolder = firefoxFolder + '/' + zipFileName;
-      await this.downloadFromUrlToDestination(url, firefoxDownloadFolder, firefoxFolder);
+      const sha256 = await this.downloadFromUrlToDestination(url, firefoxDownloadFolder, firefoxFolder, checksum);
       await this.unzipFile(firefoxDownloadFolder, firefoxFolder);
+      this.makeExecutable(binary);
+      this.markInstalled(firefoxFolder, url, sha256);
     }
-    this._driverPaths['firefox'] = resolve(firefoxFolder, 'geckodriver.exe');
+    this._driverPaths['firefox'] = binary;
   };
 
-  downloadEdgeDriver = async (version: string) => {};
+  downloadMsEdgeDriver = async (driver: 'edge' | 'chromiumedge', version: string, url: string) => {
+    const edgeFolder = this.getDriverFolder(driver, version);
+    const binary = resolve(edgeFolder, this.getDriverBinaryName(driver));
+    if (this.prepareFolder(edgeFolder)) {
+      const checksum = this.getChecksum(driver, version);
+      const zipFileName = 'driver.zip';
+      const edgeDownloadFolder = edgeFolder + '/' + zipFileName;
+      const sha256 = await this.downloadFromUrlToDestination(url, edgeDownloadFolder, edgeFolder, checksum);
+      await this.unzipFile(edgeDownloadFolder, edgeFolder);
+      this.makeExecutable(binary);
+      this.markInstalled(edgeFolder, url, sha256);
+    }
+    this._driverPaths[driver] = binary;
+  };
+
+  downloadEdgeDriver = async (version: string) => {
+    await this.downloadMsEdgeDriver('edge', version, this.getEdgeDriverDownloadUrl(version));
+  };
+
+  downloadChromiumEdgeDriver = async (version: string) => {
+    await this.downloadMsEdgeDriver('chromiumedge', version, this.getChromiumEdgeDriverDownloadUrl(version));
+  };
 
-  downloadChromiumEdgeDriver = async (version: string) => {};
+  downloadDriver = async (driver: driverType, version: string) => {
+    switch (driver) {
+      case 'selenium':
+        await this.downloadSeleniumDriver(version);
+        break;
+      case 'chrome':
+        await this.downloadChromeDriver(version);
+        break;
+      case 'firefox':
+        await this.downloadFirefoxDriver(version);
+        break;
+      case 'edge':
+        await this.downloadEdgeDriver(version);
+        break;
+      case 'chromiumedge':
+        await this.downloadChromiumEdgeDriver(version);
+        break;
+    }
+  };
 
   downloadRequiredBrowserDrivers = async (requiredDrivers: driverType[]) => {
-    for (const requiredDriver of requiredDrivers) {
-      const requiredVersion =
-        this._options.drivers[requiredDriver] === 'latest'
-          ? await this.getLatestVersionDetails(requiredDriver)
-          : this._options.drivers[requiredDriver];
-      switch (requiredDriver) {
-        case 'chrome':
-          await this.downloadChromeDriver(requiredVersion);
-          break;
-        case 'firefox':
-          await this.downloadFirefoxDriver(requiredVersion);
-          break;
-        case 'edge':
-          await this.downloadEdgeDriver(requiredVersion);
-          break;
-        case 'chromiumedge':
-          await this.downloadChromiumEdgeDriver(requiredVersion);
-          break;
+    await Promise.all(
+      requiredDrivers.map(async (requiredDriver) => {
+        const requiredVersion = await this.resolveDriverVersion(requiredDriver);
+        this._driverVersions[requiredDriver] = requiredVersion;
+        await this.downloadDriver(requiredDriver, requiredVersion);
+      })
+    );
+  };
+
+  /**
+   * Runs the installed binary with `--version` (`java -jar <jar> --version` for selenium 4) and checks the reported
+   * version against the requested one. Selenium 3 has no version flag, so only the presence of the jar is checked
+   */
+  isValidInstallation = (driver: driverType, version: string) => {
+    const binary = this._driverPaths[driver];
+    if (!binary || !existsSync(binary)) return false;
+    if (driver === 'selenium' && !version.startsWith('4')) return true;
+    const [command, args] = driver === 'selenium' ? [this._javaPath, ['-jar', binary, '--version']] : [binary, ['--version']];
+    const output = spawnSync(command, args, { encoding: 'utf-8', timeout: 30000 });
+    const reported = `${output.stdout ?? ''}${output.stderr ?? ''}`;
+    if (output.status !== 0 || !reported.includes(version)) {
+      console.warn(`${binary} --version failed or did not report ${version}: ${output.error ?? reported.trim()}`);
+      return false;
+    }
+    return true;
+  };
+
+  getInstalledDrivers = () => {
+    const drivers: driverType[] = this._mode === 'direct' ? this._requiredDrivers : ['selenium', ...this._requiredDrivers];
+    return drivers.map((driver) => ({
+      driver,
+      version: driver === 'selenium' ? this._seleniumVersion : this._driverVersions[driver]!,
+    }));
+  };
+
+  /**
+   * Records the versions in use with the url and archive hash of the current platform, keeping other platforms' entries
+   */
+  writeLockfile = () => {
+    const lock: driversLock = { lockfileVersion: 1, drivers: { ...this._lock?.drivers } };
+    this.getInstalledDrivers().forEach(({ driver, version }) => {
+      const marker = this.readInstalledMarker(this.getDriverFolder(driver, version));
+      if (!marker) return;
+      const previous = lock.drivers[driver];
+      const downloads = previous?.version === version ? { ...previous.downloads } : {};
+      downloads[this.getPlatformKey()] = { url: marker.url, sha256: marker.sha256 };
+      lock.drivers[driver] = { requested: this._driverOptions[driver]!.version, version, downloads };
+    });
+    writeFileSync(this._lockPath, JSON.stringify(lock, null, 2) + '\n');
+    this._lock = lock;
+    console.log(`Driver versions locked in ${this._lockPath}`);
+  };
+
+  verifyInstalledDrivers = async () => {
+    for (const { driver, version } of this.getInstalledDrivers()) {
+      if (this.isValidInstallation(driver, version)) continue;
+      console.warn(`Installation of ${driver} ${version} is broken, downloading it again`);
+      rmSync(this.getDriverFolder(driver, version), { recursive: true, force: true });
+      await this.downloadDriver(driver, version);
+      if (!this.isValidInstallation(driver, version)) {
+        throw new SevereServiceError(`Driver setup failed, ${driver} ${version} at ${this._driverPaths[driver]} does not start`);
       }
     }
   };
@@ -303,19 +903,55 @@ export default class Driver implements Services.ServiceInstance {
   };
 
   getSeleniumStatusUrl = () => {
-    const protocol = DEFAULT_CONNECTION.protocol;
-    const host = DEFAULT_CONNECTION.hostname;
-    const port = DEFAULT_CONNECTION.port;
+    const { protocol, hostname: host, port } = this._connection;
     const statusPath = this._seleniumVersion.startsWith('4') ? '/status' : '/wd/hub/status';
     return new URL(`${protocol}://${host}:${port}${statusPath}`);
   };
 
+  redirectLogStream = (child: ChildProcessWithoutNullStreams, logPath: string = this._logPath) => {
+    mkdirSync(resolve(logPath, '..'), { recursive: true });
+    const logStream = createWriteStream(logPath, { flags: 'w' });
+    child.stdout.pipe(logStream);
+    child.stderr.pipe(logStream);
+    console.log(`Logs are written to ${logPath}`);
+  };
+
+  getDriverForBrowser = (browserName?: string) => {
+    const name = browserName?.toLowerCase() ?? '';
+    return Object.keys(this._driverConnections).find((driver) =>
+      BROWSER_NAMES[driver as driverType]?.some((browser) => browser.toLowerCase() === name)
+    ) as driverType | undefined;
+  };
+
+  /**
+   * In selenium mode every capability goes to the server, in direct mode each one goes to the driver of its browser
+   */
+  getConnectionForBrowser = (browserName?: string) => {
+    if (this._mode === 'selenium') return this._connection;
+    const driver = this.getDriverForBrowser(browserName);
+    if (!driver) throw new SevereServiceError(`No browser driver started for browserName '${browserName}' in direct mode`);
+    return this._driverConnections[driver]!;
+  };
+
+  applyConnectionDetails = (config: Options.Testrunner, capabilities: Capabilities.RemoteCapabilities) => {
+    const defaultConnection = this._mode === 'selenium' ? this._connection : Object.values(this._driverConnections)[0]!;
+    const { protocol, hostname, port, path } = defaultConnection;
+    Object.assign(config, { protocol, hostname, port, path });
+    const isMultiremote = !Array.isArray(capabilities);
+    const remoteCapabilities: any[] = isMultiremote ? Object.values(capabilities) : capabilities;
+    remoteCapabilities.forEach((capability) => {
+      // connection details sit at the top level of the entry: next to `capabilities` in multiremote, next to
+      // `alwaysMatch` in W3C entries, never inside the capabilities sent to the driver
+      const requested = isMultiremote ? capability.capabilities : capability;
+      const browserName = (requested?.alwaysMatch ?? requested)?.browserName;
+      const { protocol, hostname, port, path } = this.getConnectionForBrowser(browserName);
+      Object.assign(capability, { protocol, hostname, port, path }, { ...capability });
+    });
+  };
+
   checkSeleniumStarted = async (selenium: ChildProcessWithoutNullStreams) => {
     const seleniumStatusUrl = this.getSeleniumStatusUrl();
 
-    selenium.stdout?.on('data', (data) => console.log(data.toString()));
-    selenium.stderr?.on('data', (data) => console.log(data.toString()));
-
     let attempts = this._waitTime / 2000 - 1;
     const startTime = Date.now();
     while (attempts > 0 && Date.now() - startTime < this._waitTime) {
@@ -334,26 +970,296 @@ export default class Driver implements Services.ServiceInstance {
         }
       }
     }
-    selenium.kill('SIGINT');
-    throw new SevereServiceError('Unable to connect to selenium');
+    this.killServer();
+    throw new SevereServiceError(`Unable to connect to selenium. Check ${this._logPath} for details`);
+  };
+
+  /**
+   * Polls the driver `/status` endpoint until it reports `ready`, fails early when the driver process exits
+   */
+  checkDriverStarted = async (driver: driverType, child: ChildProcessWithoutNullStreams, logPath: string) => {
+    const { protocol, hostname, port } = this._driverConnections[driver]!;
+    const statusUrl = new URL(`${protocol}://${hostname}:${port}/status`);
+    const startTime = Date.now();
+    let lastError = 'no status received';
+    while (Date.now() - startTime < this._waitTime && child.exitCode === null) {
+      await sleep(250);
+      try {
+        const { body } = await got<any>(statusUrl, { responseType: 'json', timeout: 10000, retry: 0 });
+        if (body?.value?.ready) return null;
+        lastError = `not ready: ${body?.value?.message ?? JSON.stringify(body?.value)}`;
+      } catch (err) {
+        lastError = err.message;
+      }
+    }
+    const exited = child.exitCode === null ? '' : ` (exited with code ${child.exitCode})`;
+    this.killServer();
+    throw new SevereServiceError(
+      `Unable to connect to ${driver} driver on port ${port}${exited}, last status: ${lastError}. Check ${logPath} for details`
+    );
+  };
+
+  /**
+   * Kills selenium (and every browser driver it spawned) or the directly started drivers. Runs synchronously so it can
+   * be used from the `exit` handler. On unix every process is started as a process group leader, so signalling the
+   * negative pid reaches the whole tree.
+   */
+  killServer = (signal: NodeJS.Signals = 'SIGTERM') => {
+    this._processes.forEach((child) => {
+      if (!child.pid || child.exitCode !== null || child.signalCode !== null) return;
+      try {
+        if (this._platform === 'win32') {
+          spawnSync('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+        } else {
+          process.kill(-child.pid, signal);
+        }
+      } catch (err) {
+        child.kill(signal);
+      }
+    });
+  };
+
+  stopServer = async () => {
+    const running = this._processes.filter((child) => child.exitCode === null && child.signalCode === null);
+    if (!running.length) return;
+    const exited = Promise.all(running.map((child) => new Promise((r) => child.once('exit', r))));
+    this.killServer('SIGTERM');
+    const stopped = await Promise.race([exited.then(() => true), sleep(5000).then(() => false)]);
+    if (!stopped) {
+      console.error('Driver processes did not stop within 5s, forcing shutdown');
+      this.killServer('SIGKILL');
+    }
+    this.removeExitHandlers();
+    console.log(this._mode === 'selenium' ? 'Selenium server stopped' : 'Browser drivers stopped');
+  };
+
+  // wdio owns the actual exit on SIGINT and crashes, these handlers only make sure our processes do not outlive it
+  onExit = () => this.killServer();
+
+  addExitHandlers = () => {
+    process.once('SIGINT', this.onExit);
+    process.once('uncaughtExceptionMonitor', this.onExit);
+    process.once('exit', this.onExit);
+  };
+
+  removeExitHandlers = () => {
+    process.removeListener('SIGINT', this.onExit);
+    process.removeListener('uncaughtExceptionMonitor', this.onExit);
+    process.removeListener('exit', this.onExit);
   };
 
   startServer = async () => {
-    const seleniumStatusUrl = this.getSeleniumStatusUrl();
+    if (this._topology !== 'standalone') return await this.startGrid();
+    await this.allocatePort();
     this._seleniumArgs.unshift('standalone');
+    this._seleniumArgs.push(this._seleniumVersion.startsWith('4') ? '--port' : '-port', String(this._connection.port));
     this.addDriverPathAsStartArgumens(this._requiredDrivers);
     this._startArgs.push(...this._javaArgs, '-jar', this._driverPaths['selenium'], ...this._seleniumArgs);
-    const used = await this.isPortReachable(Number(seleniumStatusUrl.port), { host: seleniumStatusUrl.hostname, timeout: 100 });
-    if (used) throw new SevereServiceError(`Port ${seleniumStatusUrl.port} is already in use.`);
-    const selenium = spawn(this._javaPath, this._startArgs);
+    const selenium = spawn(this._javaPath, this._startArgs, { detached: this._platform !== 'win32' });
+    this._processes.push(selenium);
+    this.redirectLogStream(selenium);
+    this.addExitHandlers();
     await this.checkSeleniumStarted(selenium);
+    console.log(`Selenium server started on port ${this._connection.port}`);
+  };
+
+  toToml = (tables: tomlTable[]) => {
+    // JSON string escaping is valid for TOML basic strings
+    const format = ([name, values]: tomlTable) => [name, ...Object.entries(values).map(([k, v]) => `${k} = ${JSON.stringify(v)}`)];
+    return tables.map((table) => format(table).join('\n')).join('\n\n') + '\n';
   };
 
-  onPrepare = async () => {
+  writeGridConfig = (name: string, tables: tomlTable[]) => {
+    const configPath = resolve(this._logPath, '..', 'grid', `${name}.toml`);
+    mkdirSync(resolve(configPath, '..'), { recursive: true });
+    writeFileSync(configPath, this.toToml(tables));
+    return configPath;
+  };
+
+  getNodeTables = (port: number, events: { publish: string; subscribe: string }): tomlTable[] => {
+    const { maxSessions, sessionTimeout } = this._grid;
+    const driverTables: tomlTable[] = this._requiredDrivers.map((driver) => [
+      '[[node.driver-configuration]]',
+      {
+        'display-name': driver,
+        stereotype: JSON.stringify({ browserName: BROWSER_NAMES[driver]![0] }),
+        'max-sessions': maxSessions,
+        'webdriver-executable': this._driverPaths[driver],
+      },
+    ]);
+    // selenium caps max-sessions at the cpu count unless told otherwise, the configured value is meant as given
+    const node = { 'detect-drivers': false, 'max-sessions': maxSessions, 'override-max-sessions': true, 'session-timeout': sessionTimeout };
+    return [['[server]', { port }], ['[events]', events], ['[node]', node], ...driverTables];
+  };
+
+  /**
+   * Starts one grid component (`hub`, `node`, `router`, ...) with its TOML config and waits until its port answers
+   */
+  startGridProcess = async (name: string, role: string, tables: tomlTable[], port: number) => {
+    const configPath = this.writeGridConfig(name, tables);
+    const logPath = resolve(this._logPath, '..', `selenium-${name}.log`);
+    const args = [...this._startArgs, '-jar', this._driverPaths['selenium'], role, '--config', configPath, ...this._seleniumArgs];
+    const child = spawn(this._javaPath, args, { detached: this._platform !== 'win32' });
+    this._processes.push(child);
+    this.redirectLogStream(child, logPath);
+    const startTime = Date.now();
+    while (Date.now() - startTime < this._waitTime && child.exitCode === null) {
+      if (await this.isPortReachable(port, { host: this._connection.hostname, timeout: 1000 })) return;
+      await sleep(500);
+    }
+    this.killServer();
+    throw new SevereServiceError(`Unable to start selenium ${name}. Check ${logPath} for details`);
+  };
+
+  getGridStatus = async () => {
+    const { body } = await got<any>(this.getSeleniumStatusUrl(), { responseType: 'json', timeout: 10000, retry: 0 });
+    return (body?.value?.nodes ?? []) as gridNode[];
+  };
+
+  /**
+   * Every driver configuration of a node gets its own slots, but the node still runs at most maxSessions at a time
+   */
+  getGridCapacity = (nodes: gridNode[]) =>
+    nodes.reduce((capacity, node) => capacity + Math.min(node.maxSessions, node.slots?.length ?? node.maxSessions), 0);
+
+  /**
+   * Waits until the router reports every node as registered and UP, returns the number of session slots they offer
+   */
+  waitForNodes = async (count: number) => {
+    const startTime = Date.now();
+    let registered = 0;
+    while (Date.now() - startTime < this._waitTime) {
+      const nodes = await this.getGridStatus().catch((): gridNode[] => []);
+      const available = nodes.filter((node) => node.availability === 'UP');
+      registered = available.length;
+      if (registered >= count) return this.getGridCapacity(available);
+      await sleep(1000);
+    }
+    this.killServer();
+    throw new SevereServiceError(
+      `Only ${registered} of ${count} selenium nodes registered. Check the logs in ${resolve(this._logPath, '..')}`
+    );
+  };
+
+  startGrid = async () => {
+    if (!this._seleniumVersion.startsWith('4')) {
+      throw new SevereServiceError(`Topology '${this._topology}' needs selenium 4, got ${this._seleniumVersion}`);
+    }
+    await this.allocatePort();
+    this.addDriverPathAsStartArgumens(this._requiredDrivers);
+    this._startArgs.push(...this._javaArgs);
+    this.addExitHandlers();
+    const host = this._connection.hostname;
+    const { sessionRequestTimeout } = this._grid;
+    const [publish, subscribe] = [await this.getFreePort(host), await this.getFreePort(host)];
+    const events = { publish: `tcp://${host}:${publish}`, subscribe: `tcp://${host}:${subscribe}` };
+    if (this._topology === 'hub-node') {
+      const hubEvents = { publish: `tcp://*:${publish}`, subscribe: `tcp://*:${subscribe}` };
+      const hub: tomlTable[] = [
+        ['[server]', { port: this._connection.port }],
+        ['[events]', hubEvents],
+        ['[sessionqueue]', { 'session-request-timeout': sessionRequestTimeout }],
+      ];
+      await this.startGridProcess('hub', 'hub', hub, this._connection.port);
+    } else {
+      const [sessions, sessionqueue, distributor, eventBus] = [
+        await this.getFreePort(host),
+        await this.getFreePort(host),
+        await this.getFreePort(host),
+        await this.getFreePort(host),
+      ];
+      const components: tomlTable = ['[sessions]', { host, port: sessions }];
+      const queue: tomlTable = ['[sessionqueue]', { host, port: sessionqueue, 'session-request-timeout': sessionRequestTimeout }];
+      const busEvents = { publish: `tcp://*:${publish}`, subscribe: `tcp://*:${subscribe}`, bind: true };
+      await this.startGridProcess(
+        'event-bus',
+        'event-bus',
+        [
+          ['[server]', { port: eventBus }],
+          ['[events]', busEvents],
+        ],
+        eventBus
+      );
+      await this.startGridProcess(
+        'sessions',
+        'sessions',
+        [
+          ['[server]', { port: sessions }],
+          ['[events]', events],
+        ],
+        sessions
+      );
+      await this.startGridProcess('sessionqueue', 'sessionqueue', [['[server]', { port: sessionqueue }], queue], sessionqueue);
+      const distributorConfig: tomlTable[] = [
+        ['[server]', { port: distributor }],
+        ['[events]', events],
+        components,
+        queue,
+        ['[distributor]', { 'bind-bus': false }],
+      ];
+      await this.startGridProcess('distributor', 'distributor', distributorConfig, distributor);
+      const routerConfig: tomlTable[] = [
+        ['[server]', { port: this._connection.port }],
+        components,
+        queue,
+        ['[distributor]', { host, port: distributor }],
+      ];
+      await this.startGridProcess('router', 'router', routerConfig, this._connection.port);
+    }
+    for (let index = 1; index <= this._grid.nodes; index++) {
+      const port = await this.getFreePort(host);
+      await this.startGridProcess(`node-${index}`, 'node', this.getNodeTables(port, events), port);
+    }
+    const capacity = await this.waitForNodes(this._grid.nodes);
+    console.log(`Selenium grid (${this._topology}) started on port ${this._connection.port} with ${capacity} session slots`);
+  };
+
+  /**
+   * Never run more workers than the grid has session slots, extra sessions would only wait in the queue
+   */
+  applyGridCapacity = async (config: Options.Testrunner) => {
+    if (this._mode !== 'selenium' || !this._seleniumVersion.startsWith('4')) return;
+    const nodes = await this.getGridStatus().catch((): gridNode[] => []);
+    const capacity = this.getGridCapacity(nodes);
+    if (!capacity) return;
+    config.maxInstances = Math.min(capacity, config.maxInstances ?? capacity);
+    console.log(`Running at most ${config.maxInstances} instances on ${capacity} grid session slots`);
+  };
+
+  startDrivers = async () => {
+    this.addExitHandlers();
+    for (const driver of this._requiredDrivers) {
+      // drivers serve webdriver on the root path and geckodriver only listens on ipv4 by default
+      const driverConnection = { ...this._connection, hostname: this._options?.hostname ?? '127.0.0.1', port: 0, path: '/' };
+      await this.allocatePort(driverConnection);
+      this._driverConnections[driver] = driverConnection;
+      const logPath = resolve(this._logPath, '..', `${driver}.log`);
+      const child = spawn(this._driverPaths[driver], [`--port=${driverConnection.port}`], { detached: this._platform !== 'win32' });
+      this._processes.push(child);
+      this.redirectLogStream(child, logPath);
+      await this.checkDriverStarted(driver, child, logPath);
+      console.log(`${driver} driver started on port ${driverConnection.port}`);
+    }
+  };
+
+  installDrivers = async () => {
     this.checkDependencies();
     this.createDriversFolderIfNotPresent();
-    await this.downloadSeleniumDriver(this._seleniumVersion);
-    await this.downloadRequiredBrowserDrivers(this._requiredDrivers);
-    await this.startServer();
+    await Promise.all([
+      this._mode === 'selenium' && this.downloadSeleniumDriver(this._seleniumVersion),
+      this.downloadRequiredBrowserDrivers(this._requiredDrivers),
+    ]);
+    await this.verifyInstalledDrivers();
+  };
+
+  onPrepare = async (config: Options.Testrunner, capabilities: Capabilities.RemoteCapabilities) => {
+    await this.installDrivers();
+    this._mode === 'selenium' ? await this.startServer() : await this.startDrivers();
+    this.applyConnectionDetails(config, capabilities);
+    await this.applyGridCapacity(config);
+  };
+
+  onComplete = async () => {
+    await this.stopServer();
   };
 }
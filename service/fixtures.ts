@@ -0,0 +1,122 @@
+/**
+ * @author R,Mithun
+ * @module Fixtures
+ * Data-driven test inputs, one dataset per file in resources/fixtures (<name>.yaml, .yml, .xlsx or .xls)
+ * - YAML: { defaults?, modes?: { <mode>: values }, rows: [{ id, ...values }] }
+ * - Excel: the `rows` sheet (the first sheet when there is none), one row per line with an `id` column
+ * - a row is defaults < modes.<mode> < row values < row `<column>@<mode>` values, empty ones override nothing
+ * - rows without an id are numbered from 1, ids must be unique
+ * The mode is the one of the Launcher, set before the specs are loaded (env var `mode` when there is no Launcher).
+ * Specs use fixture<type>('search').rows(), .row(id) or .each(title, test) for one `it` per row titled '<title> [<id>]',
+ * the Reporter records the row of each test.
+ */
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import * as XLSX from 'xlsx';
+
+export type fixtureRow = { id: string; [column: string]: any };
+
+export type datasetRow = { dataset: string; id: string; values: fixtureRow };
+
+type dataset = { defaults?: { [column: string]: any }; modes?: { [mode: string]: { [column: string]: any } }; rows: any[] };
+
+export const DEFAULT_FIXTURES_DIR = resolve(__dirname, '..', 'resources', 'fixtures');
+
+const EXTENSIONS = ['.yaml', '.yml', '.xlsx', '.xls'];
+
+const settings = { mode: process.env.mode ?? 'dev', dir: DEFAULT_FIXTURES_DIR };
+
+const loaded = new Map<string, fixtureRow[]>();
+
+let activeRow: datasetRow | undefined;
+
+export const configureFixtures = ({ mode, dir }: { mode?: string; dir?: string }) => {
+  settings.mode = mode ?? settings.mode;
+  settings.dir = dir ? resolve(dir) : settings.dir;
+  loaded.clear();
+};
+
+export const getMode = () => settings.mode;
+
+/**
+ * The row of the running test, undefined for tests that are not generated from a dataset
+ */
+export const getActiveRow = () => activeRow;
+
+export const clearActiveRow = () => {
+  activeRow = undefined;
+};
+
+const readDataset = (file: string): dataset => {
+  if (/\.ya?ml$/i.test(file)) {
+    const yaml = require('js-yaml');
+    return yaml.load(readFileSync(file, 'utf-8')) ?? { rows: [] };
+  }
+  const book = XLSX.read(readFileSync(file), { type: 'buffer' });
+  const sheet = book.Sheets['rows'] ?? book.Sheets[book.SheetNames[0]];
+  return { rows: XLSX.utils.sheet_to_json(sheet) };
+};
+
+/**
+ * The values of `values` for the mode: plain columns, replaced by their non-empty `<column>@<mode>` counterparts
+ */
+const forMode = (values: { [column: string]: any } = {}, mode: string) => {
+  const plain = Object.entries(values).filter(([column]) => !column.includes('@'));
+  const overrides = Object.entries(values)
+    .filter(([column, value]) => column.endsWith(`@${mode}`) && value !== '' && value !== null)
+    .map(([column, value]) => [column.slice(0, -mode.length - 1), value]);
+  return Object.fromEntries([...plain, ...overrides]);
+};
+
+export const loadFixture = (name: string, mode: string = settings.mode, dir: string = settings.dir): fixtureRow[] => {
+  const file = EXTENSIONS.map((extension) => join(dir, `${name}${extension}`)).find((candidate) => existsSync(candidate));
+  if (!file) throw new Error(`Fixture '${name}' not found in ${dir}, expected ${name}${EXTENSIONS.join(`, ${name}`)}`);
+  const { defaults, modes, rows } = readDataset(file);
+  if (!Array.isArray(rows)) throw new Error(`Fixture ${file} has no list of rows`);
+  const base = { ...forMode(defaults, mode), ...forMode(modes?.[mode], mode) };
+  const resolved = rows.map((row, index) => {
+    const values = { ...base, ...forMode(row, mode) };
+    return { ...values, id: String(values.id ?? index + 1) };
+  });
+  const duplicates = resolved.filter((row, index) => resolved.findIndex((other) => other.id === row.id) !== index);
+  if (duplicates.length) {
+    throw new Error(`Fixture ${file} has duplicate row ids: ${[...new Set(duplicates.map((row) => row.id))].join(', ')}`);
+  }
+  return resolved;
+};
+
+export class Fixture<T extends fixtureRow = fixtureRow> {
+  constructor(
+    readonly name: string,
+    private _rows: T[]
+  ) {}
+
+  rows = () => this._rows;
+
+  row = (id: string) => {
+    const row = this._rows.find((entry) => entry.id === id);
+    if (!row) throw new Error(`Fixture '${this.name}' has no row '${id}' in mode ${settings.mode}`);
+    return row;
+  };
+
+  /**
+   * Declares one `it` per row, titled '<title> [<row id>]'
+   */
+  each = (title: string, test: (row: T) => Promise<void>, timeout?: number) => {
+    this._rows.forEach((row) =>
+      it(
+        `${title} [${row.id}]`,
+        async () => {
+          activeRow = { dataset: this.name, id: row.id, values: row };
+          await test(row);
+        },
+        timeout
+      )
+    );
+  };
+}
+
+export const fixture = <T extends fixtureRow = fixtureRow>(name: string) => {
+  if (!loaded.has(name)) loaded.set(name, loadFixture(name));
+  return new Fixture<T>(name, loaded.get(name) as T[]);
+};
@@ -0,0 +1,14 @@
+/**
+ * @author R,Mithun
+ * @module Glob
+ * Turns a glob (* any characters, ? one character) into an anchored RegExp, a RegExp is returned as it is
+ */
+export const toRegExp = (pattern: string | RegExp) =>
+  pattern instanceof RegExp
+    ? pattern
+    : new RegExp(
+        `^${pattern
+          .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*/g, '.*')
+          .replace(/\?/g, '.')}$`
+      );
@@ -0,0 +1,189 @@
+/**
+ * @author R,Mithun
+ * @module History
+ * Keeps the outcome of every test across runs in <dir>/history.json, keyed by test id, mode and browser
+ * - the last `size` outcomes of each key are kept
+ * - flakiness: pass/fail flips plus passes that needed a retry, over the runs of the key (0 stable, 1 flaky)
+ * - durationTrend: change of the mean duration of the last 5 runs against the 5 before (0.2 is 20% slower)
+ * - quarantine.json lists test ids whose failures are reported separately, left out of the failure counts and
+ *   notifications and do not fail the build, entries are added by hand or automatically once a key of the test is
+ *   flaky enough (auto entries are released again). An entry without a row (G101_Google) covers every row of a test
+ *   generated from a dataset (G101_Google[demo])
+ * - performance.json keeps the page measurements of the Performance service, keyed by page, navigation or step
+ *   name, mode and browser, to compare the latest run with the mean of the previous ones
+ */
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { testRecord } from './results';
+
+export type historyEntry = { at: string; state: 'passed' | 'failed'; duration: number; retries: number };
+
+export type historyStats = {
+  key: string;
+  testId: string;
+  mode: string;
+  browser: string;
+  runs: number;
+  passes: number;
+  fails: number;
+  flakiness: number;
+  lastState: string;
+  averageDuration: number;
+  durationTrend: number;
+};
+
+export type measurementEntry = { at: string; testId: string; metrics: { [metric: string]: number } };
+
+export type measurementStats = {
+  key: string;
+  page: string;
+  name: string;
+  mode: string;
+  browser: string;
+  runs: number;
+  latest: { [metric: string]: number };
+  change: { [metric: string]: number };
+};
+
+export type quarantineEntry = { reason: string; since: string; auto: boolean };
+
+export type historyFilter = { prefix?: string; mode?: string; browser?: string };
+
+export const DEFAULT_HISTORY_DIR = '.history';
+
+const TREND_WINDOW = 5;
+
+const mean = (values: number[]) => (values.length ? values.reduce((total, value) => total + value, 0) / values.length : 0);
+
+export class History {
+  _dir: string;
+
+  constructor(
+    dir: string = DEFAULT_HISTORY_DIR,
+    private _size = 50
+  ) {
+    this._dir = resolve(dir);
+  }
+
+  readJson = (file: string) => (existsSync(join(this._dir, file)) ? JSON.parse(readFileSync(join(this._dir, file), 'utf-8')) : {});
+
+  writeJson = (file: string, value: any) => {
+    mkdirSync(this._dir, { recursive: true });
+    writeFileSync(join(this._dir, `${file}.tmp`), JSON.stringify(value, null, 2));
+    renameSync(join(this._dir, `${file}.tmp`), join(this._dir, file));
+  };
+
+  read = (): { [key: string]: historyEntry[] } => this.readJson('history.json');
+
+  readQuarantine = (): { [testId: string]: quarantineEntry } => this.readJson('quarantine.json');
+
+  readMeasurements = (): { [key: string]: measurementEntry[] } => this.readJson('performance.json');
+
+  /**
+   * Adds the passed and failed tests of a run, skipped and pending ones say nothing about stability
+   */
+  add = (records: testRecord[]) => {
+    const history = this.read();
+    records
+      .filter((record) => record.state === 'passed' || record.state === 'failed')
+      .forEach(({ testId, mode, browser, end, state, duration, retries }) => {
+        const key = [testId, mode, browser].join('|');
+        const entries = [...(history[key] ?? []), { at: end, state: state as historyEntry['state'], duration, retries }];
+        history[key] = entries.slice(-this._size);
+      });
+    this.writeJson('history.json', history);
+  };
+
+  getStats = (filter: historyFilter = {}): historyStats[] =>
+    Object.entries(this.read())
+      .map(([key, entries]) => {
+        const [testId, mode, browser] = key.split('|');
+        const flips = entries.filter((entry, index) => index && entry.state !== entries[index - 1].state).length;
+        const retriedPasses = entries.filter((entry) => entry.state === 'passed' && entry.retries > 0).length;
+        const durations = entries.map((entry) => entry.duration);
+        const recent = mean(durations.slice(-TREND_WINDOW));
+        const previous = mean(durations.slice(-2 * TREND_WINDOW, -TREND_WINDOW));
+        return {
+          key,
+          testId,
+          mode,
+          browser,
+          runs: entries.length,
+          passes: entries.filter((entry) => entry.state === 'passed').length,
+          fails: entries.filter((entry) => entry.state === 'failed').length,
+          flakiness: entries.length < 2 ? 0 : Math.min(1, (flips + retriedPasses) / (entries.length - 1)),
+          lastState: entries[entries.length - 1]?.state,
+          averageDuration: Math.round(mean(durations)),
+          durationTrend: previous ? (recent - previous) / previous : 0,
+        };
+      })
+      .filter(({ testId, mode, browser }) => {
+        if (filter.prefix && !testId.startsWith(filter.prefix)) return false;
+        return (!filter.mode || filter.mode === mode) && (!filter.browser || filter.browser === browser);
+      });
+
+  addMeasurements = (records: testRecord[]) => {
+    const measurements = this.readMeasurements();
+    records.forEach(({ testId, mode, browser, performance }) =>
+      (performance ?? []).forEach(({ page, name, at, metrics }) => {
+        const key = [page, name, mode, browser].join('|');
+        measurements[key] = [...(measurements[key] ?? []), { at, testId, metrics }].slice(-this._size);
+      })
+    );
+    this.writeJson('performance.json', measurements);
+  };
+
+  /**
+   * The latest measurement of each key and its change against the mean of the previous runs (0.2 is 20% more)
+   */
+  getMeasurementStats = (filter: historyFilter = {}): measurementStats[] =>
+    Object.entries(this.readMeasurements())
+      .map(([key, entries]) => {
+        const [page, name, mode, browser] = key.split('|');
+        const { metrics: latest } = entries[entries.length - 1];
+        const change = Object.fromEntries(
+          Object.entries(latest).map(([metric, value]) => {
+            const previous = mean(entries.slice(0, -1).flatMap((entry) => entry.metrics[metric] ?? []));
+            return [metric, previous ? (value - previous) / previous : 0];
+          })
+        );
+        return { key, page, name, mode, browser, runs: entries.length, latest, change };
+      })
+      .filter(({ page, mode, browser }) => {
+        if (filter.prefix && !page.startsWith(filter.prefix)) return false;
+        return (!filter.mode || filter.mode === mode) && (!filter.browser || filter.browser === browser);
+      });
+
+  quarantine = (testId: string, reason: string, auto = false) => {
+    const quarantine = this.readQuarantine();
+    quarantine[testId] = { reason, since: new Date().toISOString(), auto };
+    this.writeJson('quarantine.json', quarantine);
+  };
+
+  release = (testId: string) => {
+    const quarantine = this.readQuarantine();
+    if (!quarantine[testId]) return false;
+    delete quarantine[testId];
+    this.writeJson('quarantine.json', quarantine);
+    return true;
+  };
+
+  /**
+   * Quarantines tests with a key at or above `threshold` after `minRuns` runs, releases auto entries once every key
+   * of the test is below it again. Entries added by hand are left alone.
+   */
+  updateQuarantine = (threshold: number, minRuns: number) => {
+    const stats = this.getStats();
+    const quarantine = this.readQuarantine();
+    const flaky = new Map<string, historyStats>();
+    stats.filter((stat) => stat.runs >= minRuns && stat.flakiness >= threshold).forEach((stat) => flaky.set(stat.testId, stat));
+    const added = [...flaky.values()].filter(({ testId }) => !quarantine[testId]);
+    added.forEach(({ testId, key, flakiness }) => {
+      quarantine[testId] = { reason: `flakiness ${flakiness.toFixed(2)} on ${key}`, since: new Date().toISOString(), auto: true };
+    });
+    const released = Object.keys(quarantine).filter((testId) => quarantine[testId].auto && !flaky.has(testId));
+    released.forEach((testId) => delete quarantine[testId]);
+    this.writeJson('quarantine.json', quarantine);
+    return { added: added.map(({ testId }) => testId), released };
+  };
+}
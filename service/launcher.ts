@@ -1,30 +1,30 @@
 import type { Capabilities, Services, Options } from '@wdio/types';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
 import { setValue, getValue } from '@wdio/shared-store-service';
 import { Suite } from '@wdio/types/build/Frameworks';
-
-type mode = 'dev' | 'preprod' | 'prod';
-
-const url: any = {
-  dev: 'https://www.google.com/',
-};
-
-const credentials = {
-  dev: [
-    { email: 'abc@xyz.com' },
-  ],
-  preprod: [
-     { email: 'abc@xyz.com' },
-  ],
-  prod: [
-     { email: 'abc@xyz.com' },
-  ],
-};
+import { LeaseClient, LeaseServer } from './lease';
+import { loadProfile, profile } from './profile';
+import { getLoginStrategy, getSessionProbe, loginContext, loginStrategy, registerLoginStrategy, sessionProbe } from './login';
+import { createMasker, loadCredentials } from './credentials';
+import { DEFAULT_SESSION_DIR, resetBrowserState, SessionCache } from './session';
+import { DEFAULT_RETRY_POLICY, RetryError, retryPolicy, withRetry } from './retry';
+import { captureDiagnostics } from './diagnostics';
+import { configureFixtures } from './fixtures';
+import { readinessOptions, readinessProbe, registerReadinessProbe, waitForAppReady } from './readiness';
 
 export default class Launcher implements Services.ServiceInstance {
-  _mode: mode;
-  _waitForSpinner: number;
-  _waitforTimeout: number;
-  _maxRetry: number;
+  _mode: string;
+  _profile: profile;
+  _retryPolicy: retryPolicy;
+  _diagnostics: string;
+  _leaseTtl: number;
+  _leaseTimeout: number;
+  _leaseServer?: LeaseServer;
+  _lease?: LeaseClient;
+  _sessions?: SessionCache;
+  _clearSessions: boolean;
+  _mask: (value: any) => string;
 
   constructor(
     private _options: Services.ServiceOption,
@@ -32,95 +32,158 @@ export default class Launcher implements Services.ServiceInstance {
     private _config: Omit<Options.Testrunner, 'capabilities'>
   ) {
     this._mode = this._options?.mode ? this._options.mode : 'dev';
-    this._waitForSpinner = this._mode === 'dev' ? 20000 : 30000;
-    this._waitforTimeout = this._mode === 'dev' ? 20000 : 30000;
-    this._maxRetry = this._options?.retry ? this._options.retry : 1;
+    type strategyOption = loginStrategy | { login: loginStrategy; probe?: sessionProbe };
+    Object.entries((this._options?.loginStrategies ?? {}) as { [name: string]: strategyOption }).forEach(([name, strategy]) =>
+      typeof strategy === 'function' ? registerLoginStrategy(name, strategy) : registerLoginStrategy(name, strategy.login, strategy.probe)
+    );
+    Object.entries((this._options?.readinessProbes ?? {}) as { [name: string]: readinessProbe }).forEach(([name, probe]) =>
+      registerReadinessProbe(name, probe)
+    );
+    this._profile = loadProfile(this._mode, this._options?.profiles);
+    this._retryPolicy = {
+      attempts: this._options?.retry ?? DEFAULT_RETRY_POLICY.attempts,
+      delay: this._options?.retryDelay ?? DEFAULT_RETRY_POLICY.delay,
+      backoff: this._options?.retryBackoff ?? DEFAULT_RETRY_POLICY.backoff,
+      maxDelay: this._options?.retryMaxDelay ?? DEFAULT_RETRY_POLICY.maxDelay,
+      jitter: this._options?.retryJitter ?? DEFAULT_RETRY_POLICY.jitter,
+      retryOn: this._options?.retryOn,
+    };
+    this._diagnostics = resolve(this._options?.diagnostics ?? join('.logs', 'launch'));
+    this._leaseTtl = this._options?.leaseTtl ?? 60000;
+    this._leaseTimeout = this._options?.leaseTimeout ?? 600000;
+    this._mask = createMasker([]);
+    if (this._options?.sessionCache !== false) {
+      this._sessions = new SessionCache(this._options?.sessionCache ?? DEFAULT_SESSION_DIR, this._options?.sessionTtl);
+    }
+    this._clearSessions = !!this._options?.clearSessions;
   }
 
-  loginToDev = async () => {
-    const currentProcess = process.pid.toString();
-    const credentials = (await getValue(currentProcess)) as any;
-    const search = await $('//*[@name="q"]');
-    await search.waitForDisplayed()
+  /**
+   * wdio only logs errors thrown from worker hooks, the specs would still run without a credential or a login. Every
+   * spec of the worker fails with `message` instead, from a jasmine beforeEach that stops the spec before its body runs,
+   * so the specs are reported as failed and wdio still ends the worker, its session and the other services normally.
+   */
+  failSpecs = (message: string) => {
+    const error = new Error(this._mask(message));
+    console.error(error.message);
+    if (typeof jasmine === 'undefined') return;
+    jasmine.getEnv().configure({ stopSpecOnExpectationFailure: true });
+    beforeEach(() => {
+      throw error;
+    });
   };
 
-  loginToPreprod = async () => {
-    const currentProcess = process.pid.toString();
-    const credentials = (await getValue(currentProcess)) as any;
-    const search = await $('//*[@name="q"]');
-    await search.waitForDisplayed()
+  /**
+   * Writes every attempt to report.json next to their diagnostics, then fails the specs. The credential stays leased
+   * until the worker is done, so no other worker logs in with it while this session might still be using it.
+   */
+  handleLoginFailure = (folder: string, err: Error) => {
+    const attempts = err instanceof RetryError ? err.attempts : [];
+    try {
+      mkdirSync(folder, { recursive: true });
+      const report = { mode: this._mode, worker: process.env.WDIO_WORKER_ID, error: err.message, attempts };
+      writeFileSync(join(folder, 'report.json'), this._mask(JSON.stringify(report, null, 2)));
+    } catch (reportErr) {
+      console.error(`Unable to write the launch report: ${reportErr.message}`);
+    }
+    this.failSpecs(`Unable to launch application, see ${join(folder, 'report.json')}\n${err.message}`);
   };
 
-  loginToProd = async () => {
-    const currentProcess = process.pid.toString();
-    const credentials = (await getValue(currentProcess)) as any;
-    const search = await $('//*[@name="q"]');
-    await search.waitForDisplayed()
+  captureAttempt = async (folder: string, err: Error, attempt: number) => {
+    console.error(`Launch attempt ${attempt} failed: ${this._mask(err)}`);
+    const diagnostics = join(folder, `attempt-${attempt}`);
+    await captureDiagnostics(diagnostics, this._mask);
+    return diagnostics;
   };
 
-  handleLoginFailure = async () => {
-    console.error('Unable to launch application');
-    let availableCredentials = (await getValue('credentials')) as any[];
-    const currentProcess = process.pid.toString();
-    const credentials = (await getValue(currentProcess)) as any;
-    availableCredentials.push(credentials);
-    await setValue('credentials', availableCredentials);
-    await browser.closeWindow();
-    process.exit(1);
+  launch = async (login: loginStrategy, folder: string) => {
+    await browser.maximizeWindow();
+    const context = { credentials: this._lease?.value, profile: this._profile };
+    const step = async (attempt: number) => {
+      if (attempt > 1) await resetBrowserState();
+      await browser.url(this._profile.baseUrl);
+      const restored =
+        attempt === 1 &&
+        (await this.restoreSession(context).catch((err) => {
+          console.error(`Unable to restore cached session: ${this._mask(err)}`);
+          return false;
+        }));
+      if (restored) return browser.waitForAppReady();
+      await login(context);
+      await browser.waitForAppReady();
+      await this._sessions?.save(this._mode, context.credentials).catch((err) => {
+        console.error(`Unable to cache session: ${this._mask(err)}`);
+      });
+    };
+    await withRetry(
+      step,
+      this._retryPolicy,
+      (err, attempt) => this.captureAttempt(folder, err, attempt),
+      (err) => this._mask(err.message)
+    );
   };
 
-  launch = async (func: Function) => {
-    await browser.maximizeWindow();
-    await browser.url(url[this._mode]);
-    try {
-      await func.apply(this);
-    } catch (err) {
-      this._maxRetry--;
-      if (this._maxRetry != 0) {
-        await browser.reloadSession();
-        await this.launch(func);
-      } else await this.handleLoginFailure();
+  /**
+   * Reuses the cached session of the leased credential when the readiness probe of the login strategy accepts it
+   */
+  restoreSession = async (context: loginContext) => {
+    const probe = getSessionProbe(this._profile.login);
+    if (!this._sessions || !probe || !(await this._sessions.restore(this._mode, context.credentials))) return false;
+    if (await probe(context)) {
+      console.log(`Reusing cached ${this._mode} session`);
+      return true;
     }
+    console.log(`Cached ${this._mode} session is no longer valid, logging in`);
+    this._sessions.remove(this._mode, context.credentials);
+    await resetBrowserState();
+    await browser.url(this._profile.baseUrl);
+    return false;
   };
 
   onPrepare = async () => {
-    this._config.maxInstances = Math.min(credentials[this._mode].length, this._config.maxInstances!);
-    await setValue('credentials', credentials[this._mode]);
-    await setValue('process', []);
+    this._clearSessions && this._sessions?.clear(this._mode);
+    const credentials = loadCredentials(this._profile.credentials);
+    this._mask = createMasker(credentials);
+    this._config.maxInstances = Math.min(credentials.length, this._config.maxInstances!);
+    this._leaseServer = new LeaseServer(credentials, this._leaseTtl);
+    await setValue('leaseServer', await this._leaseServer.start());
+    await setValue('leaseToken', this._leaseServer.token);
+  };
+
+  /**
+   * Runs before the specs are loaded, so datasets read at the top of a spec already resolve for the mode
+   */
+  beforeSession = () => {
+    configureFixtures({ mode: this._mode, dir: this._options?.fixtures });
   };
 
   before = async () => {
-    let processes = (await getValue('process')) as any[];
-    processes = [process.pid, ...processes];
-    await setValue('process', processes);
-    let availableCredentials = (await getValue('credentials')) as any[];
-    const credentials = availableCredentials[0];
-    const currentProcess = process.pid.toString();
-    availableCredentials.shift();
-    await setValue('credentials', availableCredentials);
-    await setValue(currentProcess, credentials);
-    switch (this._mode) {
-      case 'dev':
-        await this.launch(this.loginToDev);
-        break;
-      case 'preprod':
-        await this.launch(this.loginToPreprod);
-        break;
-      case 'prod':
-        await this.launch(this.loginToProd);
-        break;
+    this._lease = new LeaseClient((await getValue('leaseServer')) as string, (await getValue('leaseToken')) as string, this._leaseTtl);
+    try {
+      await this._lease.acquire(this._leaseTimeout);
+    } catch (err) {
+      return this.failSpecs(`No credentials became available within ${this._leaseTimeout}ms: ${err.message}`);
     }
+    this._mask = createMasker([this._lease.value]);
+    browser.addCommand('waitForAppReady', (options?: readinessOptions) => waitForAppReady(this._profile, options));
+    const folder = join(this._diagnostics, `${this._mode}-${process.env.WDIO_WORKER_ID ?? process.pid}-${Date.now()}`);
+    await this.launch(getLoginStrategy(this._profile.login), folder).catch((err) => this.handleLoginFailure(folder, err));
   };
 
   beforeSuite = (suite: Suite) => {
-    console.log(suite);
+    console.log(this._mask(`Suite: ${suite.fullTitle} (${suite.file})`));
+  };
+
+  after = async () => {
+    await this._lease?.release();
   };
 
-  afterSuite = async () => {
-    let availableCredentials = (await getValue('credentials')) as any[];
-    const currentProcess = process.pid.toString();
-    const credentials = (await getValue(currentProcess)) as any;
-    availableCredentials.push(credentials);
-    await setValue('credentials', availableCredentials);
+  onComplete = async () => {
+    const report = this._leaseServer?.report() ?? [];
+    report.forEach(({ value, owner, acquiredAt, releasedAt, reason }) => {
+      const held = `${acquiredAt} to ${releasedAt ?? 'end'} (${reason ?? 'not released'})`;
+      console.log(this._mask(`Worker ${owner.cid} (pid ${owner.pid}) held ${value?.email ?? 'credentials'} from ${held}`));
+    });
+    await this._leaseServer?.stop();
   };
 }
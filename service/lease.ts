@@ -0,0 +1,221 @@
+/**
+ * @author R,Mithun
+ * @module Lease
+ * Leases values of a shared pool (e.g. credentials) to workers:
+ * - LeaseServer runs in the launcher process, so acquire and release are atomic. Its url is shared with the
+ *   workers through @wdio/shared-store-service, with a random token of the run that every request has to carry,
+ *   so other local processes can not lease the values
+ * - Leases expire unless the worker heartbeats within the ttl, leases of dead worker processes are reclaimed
+ * - Acquire waits in a FIFO queue while the pool is empty
+ * - Every lease is recorded so the launcher can report which worker held which value
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import got from 'got';
+
+type owner = { pid: number; cid: string };
+
+export type leaseRecord = { value: any; owner: owner; acquiredAt: string; releasedAt?: string; reason?: string };
+
+type lease = { id: string; value: any; owner: owner; expiresAt: number; record: leaseRecord };
+
+type waiter = { owner: owner; resolve: (lease: lease | null) => void };
+
+const isProcessAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return err.code === 'EPERM';
+  }
+};
+
+export class LeaseServer {
+  _available: any[];
+  _leases: Map<string, lease>;
+  _waiting: waiter[];
+  _history: leaseRecord[];
+  _server?: Server;
+  _sweeper?: NodeJS.Timeout;
+  _token: string;
+
+  constructor(
+    pool: any[],
+    private _ttl = 60000
+  ) {
+    this._token = randomBytes(32).toString('hex');
+    this._available = [...pool];
+    this._leases = new Map();
+    this._waiting = [];
+    this._history = [];
+  }
+
+  grant = (owner: owner): lease | null => {
+    if (!this._available.length) return null;
+    const value = this._available.shift();
+    const record = { value, owner, acquiredAt: new Date().toISOString() };
+    const lease = { id: randomUUID(), value, owner, expiresAt: Date.now() + this._ttl, record };
+    this._leases.set(lease.id, lease);
+    this._history.push(record);
+    return lease;
+  };
+
+  giveBack = (id: string, reason: string) => {
+    const lease = this._leases.get(id);
+    if (!lease) return false;
+    this._leases.delete(id);
+    this._available.push(lease.value);
+    Object.assign(lease.record, { releasedAt: new Date().toISOString(), reason });
+    this.serveWaiting();
+    return true;
+  };
+
+  serveWaiting = () => {
+    while (this._waiting.length && this._available.length) {
+      const waiter = this._waiting.shift()!;
+      waiter.resolve(this.grant(waiter.owner));
+    }
+  };
+
+  /**
+   * Reclaims leases whose ttl ran out without a heartbeat or whose worker process is gone
+   */
+  sweep = () => {
+    const now = Date.now();
+    this._leases.forEach((lease) => {
+      if (!isProcessAlive(lease.owner.pid)) this.giveBack(lease.id, 'worker died');
+      else if (lease.expiresAt < now) this.giveBack(lease.id, 'lease expired');
+    });
+  };
+
+  acquire = (owner: owner, timeout: number) => {
+    const lease = this.grant(owner);
+    if (lease || timeout <= 0) return Promise.resolve(lease);
+    return new Promise<lease | null>((resolve) => {
+      const waiter: waiter = {
+        owner,
+        resolve: (lease) => {
+          clearTimeout(timer);
+          resolve(lease);
+        },
+      };
+      const timer = setTimeout(() => {
+        this._waiting = this._waiting.filter((entry) => entry !== waiter);
+        resolve(null);
+      }, timeout);
+      this._waiting.push(waiter);
+    });
+  };
+
+  heartbeat = (id: string) => {
+    const lease = this._leases.get(id);
+    if (lease) lease.expiresAt = Date.now() + this._ttl;
+    return !!lease;
+  };
+
+  readBody = async (request: IncomingMessage) => {
+    let body = '';
+    for await (const chunk of request) body += chunk;
+    return body ? JSON.parse(body) : {};
+  };
+
+  isAuthorized = (request: IncomingMessage) => {
+    const expected = Buffer.from(`Bearer ${this._token}`);
+    const actual = Buffer.from(request.headers.authorization ?? '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  };
+
+  handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const send = (status: number, body?: any) => {
+      response.writeHead(status, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(body ?? {}));
+    };
+    if (!this.isAuthorized(request)) return send(401, { error: 'Missing or invalid lease token' });
+    try {
+      const body = await this.readBody(request);
+      switch (request.url) {
+        case '/acquire': {
+          const lease = await this.acquire(body.owner, body.timeout ?? 0);
+          return lease ? send(200, { id: lease.id, value: lease.value }) : send(408, { error: 'No value available in the pool' });
+        }
+        case '/heartbeat':
+          return this.heartbeat(body.id) ? send(200) : send(410, { error: 'Lease lost' });
+        case '/release':
+          return this.giveBack(body.id, 'released') ? send(200) : send(410, { error: 'Lease lost' });
+        default:
+          return send(404);
+      }
+    } catch (err) {
+      send(500, { error: err.message });
+    }
+  };
+
+  start = async () => {
+    this._server = createServer(this.handle);
+    await new Promise<void>((resolve) => this._server!.listen(0, '127.0.0.1', resolve));
+    this._sweeper = setInterval(this.sweep, Math.min(1000, this._ttl / 2));
+    this._sweeper.unref();
+    const address = this._server.address() as { port: number };
+    return `http://127.0.0.1:${address.port}`;
+  };
+
+  stop = async () => {
+    this._sweeper && clearInterval(this._sweeper);
+    this._waiting.splice(0).forEach((waiter) => waiter.resolve(null));
+    await new Promise((resolve) => (this._server ? this._server.close(resolve) : resolve(null)));
+  };
+
+  report = () => this._history;
+
+  get token() {
+    return this._token;
+  }
+}
+
+export class LeaseClient {
+  _id?: string;
+  _value: any;
+  _heartbeat?: NodeJS.Timeout;
+
+  constructor(
+    private _url: string,
+    private _token: string,
+    private _ttl = 60000
+  ) {}
+
+  post = (path: string, json: any, timeout = 10000) =>
+    got.post(`${this._url}${path}`, { json, headers: { authorization: `Bearer ${this._token}` }, timeout, retry: 0 });
+
+  /**
+   * Waits up to `timeout` for a free value, then keeps the lease alive until it is released
+   */
+  acquire = async (timeout: number) => {
+    const owner = { pid: process.pid, cid: process.env.WDIO_WORKER_ID ?? '' };
+    const { id, value } = await this.post('/acquire', { owner, timeout }, timeout + 10000).json<{ id: string; value: any }>();
+    this._id = id;
+    this._value = value;
+    this._heartbeat = setInterval(this.heartbeat, this._ttl / 3);
+    this._heartbeat.unref();
+    return value;
+  };
+
+  heartbeat = async () => {
+    await this.post('/heartbeat', { id: this._id }).catch((err) => {
+      console.error(`Lease heartbeat failed: ${err.message}`);
+    });
+  };
+
+  release = async () => {
+    if (!this._id) return;
+    this._heartbeat && clearInterval(this._heartbeat);
+    const id = this._id;
+    this._id = undefined;
+    await this.post('/release', { id }).catch((err) => {
+      console.error(`Lease release failed: ${err.message}`);
+    });
+  };
+
+  get value() {
+    return this._value;
+  }
+}
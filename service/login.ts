@@ -0,0 +1,49 @@
+/**
+ * @author R,Mithun
+ * @module Login
+ * Registry of the login strategies a profile can name in its `login` field
+ * Teams add their own with registerLoginStrategy (e.g. from wdio.conf.ts) or the Launcher `loginStrategies` option
+ * A strategy can come with a readiness probe telling whether the page shows a logged in user, cached sessions are
+ * only reused for strategies that have one
+ */
+import type { profile } from './profile';
+
+export type loginContext = { credentials: any; profile: profile };
+
+export type loginStrategy = (context: loginContext) => Promise<void>;
+
+export type sessionProbe = (context: loginContext) => Promise<boolean>;
+
+const strategies = new Map<string, loginStrategy>();
+
+const probes = new Map<string, sessionProbe>();
+
+export const registerLoginStrategy = (name: string, strategy: loginStrategy, probe?: sessionProbe) => {
+  strategies.set(name, strategy);
+  probe ? probes.set(name, probe) : probes.delete(name);
+};
+
+export const hasLoginStrategy = (name: string) => strategies.has(name);
+
+export const getLoginStrategy = (name: string) => {
+  const strategy = strategies.get(name);
+  if (!strategy) throw new Error(`Login strategy '${name}' is not registered`);
+  return strategy;
+};
+
+export const getSessionProbe = (name: string) => probes.get(name);
+
+registerLoginStrategy(
+  'google-search',
+  async () => {
+    const search = await $('//*[@name="q"]');
+    await search.waitForDisplayed();
+  },
+  async ({ profile }) => {
+    const search = await $('//*[@name="q"]');
+    return search.waitForDisplayed({ timeout: profile.timeouts.waitfor }).then(
+      () => true,
+      () => false
+    );
+  }
+);
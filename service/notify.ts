@@ -0,0 +1,153 @@
+/**
+ * @author R,Mithun
+ * @module Notify
+ * Posts the run summary and the failed tests to webhooks once the run is over
+ * - webhook: { url, name?, template?: 'json' | 'card' | registered name, modes?: [mode], headers? }
+ * - json is a generic payload, card a chat message card (Teams MessageCard format)
+ * - webhooks with `modes` only fire for those modes
+ * - a webhook is retried with backoff until the timeout is spent, what still fails goes to the outbox file and is
+ *   sent again before the next run. The outbox keeps the payload and the webhook name (a hash of the url when it has
+ *   none), url and headers are taken from the configured webhooks again when it is flushed
+ */
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { outputFileSync, removeSync } from 'fs-extra';
+import got from 'got';
+import type { summary, testRecord } from './results';
+
+export type webhook = { url: string; name?: string; template?: string; modes?: string[]; headers?: { [name: string]: string } };
+
+export type notification = { mode: string; summary: summary; failed: testRecord[]; finishedAt: string };
+
+export type notificationTemplate = (notification: notification) => any;
+
+type outboxEntry = { webhook: string; body: any; createdAt: string };
+
+type delivery = { webhook: webhook; entry: outboxEntry };
+
+const templates = new Map<string, notificationTemplate>();
+
+export const registerNotificationTemplate = (name: string, template: notificationTemplate) => {
+  templates.set(name, template);
+};
+
+registerNotificationTemplate('json', ({ mode, summary, failed, finishedAt }) => ({
+  mode,
+  finishedAt,
+  summary,
+  failed: failed.map(({ id, suite, title, capability, worker, error }) => ({ id, suite, title, capability, worker, error })),
+}));
+
+registerNotificationTemplate('card', ({ mode, summary, failed }) => ({
+  '@type': 'MessageCard',
+  '@context': 'https://schema.org/extensions',
+  themeColor: summary.fail ? 'C62828' : '2E7D32',
+  summary: `${mode}: ${summary.pass}/${summary.total} passed`,
+  sections: [
+    {
+      activityTitle: `Test run on ${mode} ${summary.fail ? 'failed' : 'passed'}`,
+      facts: [
+        { name: 'Total', value: `${summary.total}` },
+        { name: 'Passed', value: `${summary.pass}` },
+        { name: 'Failed', value: `${summary.fail}` },
+        { name: 'Skipped', value: `${summary.skipped + summary.pending}` },
+        ...Object.entries(summary.byCapability).map(([capability, counts]) => ({
+          name: capability,
+          value: `${counts.pass}/${counts.total} passed`,
+        })),
+      ],
+      text: failed.map((test) => `- ${test.title} (${test.capability}): ${test.error ?? 'failed'}`).join('\n'),
+    },
+  ],
+}));
+
+/**
+ * How the outbox refers to a webhook, so neither its url nor its headers are written to disk
+ */
+const getReference = (webhook: webhook) => webhook.name ?? createHash('sha256').update(webhook.url).digest('hex').slice(0, 16);
+
+/**
+ * Posts `body` until it is accepted or `timeout` ms are spent, waiting 500ms, 1s, 2s... between attempts
+ */
+const send = async ({ webhook, entry }: delivery, timeout: number) => {
+  const deadline = Date.now() + timeout;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await got.post(webhook.url, { json: entry.body, headers: webhook.headers, timeout: Math.max(1, deadline - Date.now()), retry: 0 });
+      return true;
+    } catch (err) {
+      const delay = 500 * Math.pow(2, attempt - 1);
+      if (Date.now() + delay >= deadline) {
+        console.error(`Webhook ${entry.webhook} failed after ${attempt} attempt(s): ${err.message}`);
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+};
+
+const readOutbox = (outbox: string): outboxEntry[] => {
+  if (!existsSync(outbox)) return [];
+  try {
+    return JSON.parse(readFileSync(outbox, 'utf-8'));
+  } catch (err) {
+    console.error(`Ignoring unreadable outbox ${outbox}: ${err.message}`);
+    return [];
+  }
+};
+
+const writeOutbox = (outbox: string, entries: outboxEntry[]) => {
+  entries.length ? outputFileSync(outbox, JSON.stringify(entries, null, 2)) : removeSync(outbox);
+};
+
+const deliver = async (deliveries: delivery[], timeout: number) => {
+  const results = await Promise.all(deliveries.map((delivery) => send(delivery, timeout)));
+  return deliveries.filter((delivery, index) => !results[index]).map(({ entry }) => entry);
+};
+
+/**
+ * Sends what previous runs left in the outbox, keeping whatever fails again
+ */
+export const flushOutbox = async (webhooks: webhook[], outbox: string, timeout: number) => {
+  const entries = readOutbox(outbox);
+  if (!entries.length) return;
+  const deliveries = entries.flatMap((entry) => {
+    const webhook = webhooks.find((candidate) => getReference(candidate) === entry.webhook);
+    if (!webhook) console.error(`Dropping a notification for webhook ${entry.webhook}, it is no longer configured`);
+    return webhook ? [{ webhook, entry }] : [];
+  });
+  const failed = await deliver(deliveries, timeout);
+  console.log(`Resent ${deliveries.length - failed.length} of ${entries.length} notifications from ${outbox}`);
+  writeOutbox(outbox, failed);
+};
+
+/**
+ * One message per webhook whose template is not registered
+ */
+export const validateWebhooks = (webhooks: webhook[]) =>
+  webhooks
+    .filter((webhook) => !templates.has(webhook.template ?? 'json'))
+    .map((webhook) => `Notification template '${webhook.template}' of webhook ${getReference(webhook)} is not registered`);
+
+/**
+ * A webhook whose payload can not be built is skipped, the others are still sent
+ */
+export const notify = async (webhooks: webhook[], notification: notification, outbox: string, timeout: number) => {
+  const entries = webhooks
+    .filter((webhook) => !webhook.modes || webhook.modes.includes(notification.mode))
+    .flatMap((webhook) => {
+      try {
+        const template = templates.get(webhook.template ?? 'json');
+        if (!template) throw new Error(`template '${webhook.template}' is not registered`);
+        return [{ webhook, entry: { webhook: getReference(webhook), body: template(notification), createdAt: notification.finishedAt } }];
+      } catch (err) {
+        console.error(`Skipping webhook ${getReference(webhook)}: ${err.message}`);
+        return [];
+      }
+    });
+  const failed = await deliver(entries, timeout);
+  if (failed.length) {
+    console.error(`${failed.length} notification(s) kept in ${outbox} for the next run`);
+    writeOutbox(outbox, [...readOutbox(outbox), ...failed]);
+  }
+};
@@ -0,0 +1,223 @@
+/**
+ * @author R,Mithun
+ * @module Performance
+ * Measures page performance in the browser and checks it against budgets
+ * - every browser.url() is measured once the page loaded: ttfb, fcp, lcp, domContentLoaded and load (ms from the
+ *   start of the navigation), transferSize (bytes) and requests, from the Navigation Timing, Paint and Resource APIs
+ * - browser.measureStep(name, step) measures a marked step: duration plus the transferSize and requests it caused, all
+ *   requests of the new document when the step navigated
+ * - waiting for the load event and the largest contentful paint adds up to `lcpWait` ms (500 by default, 0 skips lcp)
+ *   to every browser.url(), with `modes` the service only measures in those modes
+ * - budgets come from a YAML file (resources/budgets.yaml by default) with a list of budgets per mode:
+ *   { page?: glob, step?: glob, severity?: warning | failure, <metric>: limit }, a budget without `step` applies to
+ *   navigations, one with `step` to the matching steps. Every matching budget is checked.
+ * The Reporter records the measurements and breaches of each test: a failure breach fails the test, a warning is
+ * counted on its own. Measurements are kept across runs in the history.
+ */
+import type { Capabilities, Services, Options } from '@wdio/types';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { SevereServiceError } from 'webdriverio';
+import { toRegExp } from './glob';
+
+export type measurement = { kind: 'navigation' | 'step'; name: string; page: string; at: string; metrics: { [metric: string]: number } };
+
+export type budget = { page?: string; step?: string; severity?: 'warning' | 'failure'; [metric: string]: any };
+
+export type budgetBreach = { page: string; name: string; metric: string; value: number; limit: number; severity: 'warning' | 'failure' };
+
+declare global {
+  namespace WebdriverIO {
+    interface Browser {
+      measureStep: <T>(name: string, step: () => Promise<T>) => Promise<T>;
+    }
+  }
+}
+
+export const DEFAULT_BUDGETS = resolve(__dirname, '..', 'resources', 'budgets.yaml');
+
+export const METRICS = ['ttfb', 'fcp', 'lcp', 'domContentLoaded', 'load', 'transferSize', 'requests', 'duration'];
+
+let measurements: measurement[] = [];
+
+let breaches: budgetBreach[] = [];
+
+/**
+ * Hands the measurements and breaches since the last call to the caller, the Reporter takes them after every test
+ */
+export const takeMeasurements = () => {
+  const taken = { measurements, breaches };
+  measurements = [];
+  breaches = [];
+  return taken;
+};
+
+/**
+ * The url without query and hash, so one page is one key across runs
+ */
+const getPage = (url: string) => {
+  try {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname}`;
+  } catch (err) {
+    return url;
+  }
+};
+
+const validateBudget = (entry: any) => {
+  if (!entry || typeof entry !== 'object') return ['must be an object'];
+  const errors: string[] = [];
+  if (entry.page !== undefined && typeof entry.page !== 'string') errors.push('page must be a glob');
+  if (entry.step !== undefined && typeof entry.step !== 'string') errors.push('step must be a glob');
+  if (entry.severity !== undefined && !['warning', 'failure'].includes(entry.severity)) errors.push('severity must be warning or failure');
+  const limits = Object.keys(entry).filter((name) => !['page', 'step', 'severity'].includes(name));
+  if (!limits.length) errors.push('no metric limited');
+  limits.forEach((name) => {
+    if (!METRICS.includes(name)) errors.push(`unknown metric '${name}', use ${METRICS.join(', ')}`);
+    else if (typeof entry[name] !== 'number' || entry[name] < 0) errors.push(`${name} must be a positive number`);
+  });
+  return errors;
+};
+
+export const validateBudgets = (mode: string, budgets: any) => {
+  if (!Array.isArray(budgets)) return [`budgets of '${mode}' must be a list`];
+  return budgets.flatMap((entry, index) => validateBudget(entry).map((error) => `budget ${index + 1} of '${mode}': ${error}`));
+};
+
+export const loadBudgets = (mode: string, file: string = DEFAULT_BUDGETS): budget[] => {
+  if (!existsSync(file)) return [];
+  const yaml = require('js-yaml');
+  const budgets = (yaml.load(readFileSync(file, 'utf-8')) ?? {})[mode] ?? [];
+  const errors = validateBudgets(mode, budgets);
+  if (errors.length) throw new SevereServiceError(`Invalid budgets in ${file}\n ${errors.join('\n ')}`);
+  return budgets;
+};
+
+export const formatBreach = ({ page, name, metric, value, limit, severity }: budgetBreach) =>
+  `budget ${severity}: ${metric} ${value} > ${limit} on ${name === 'navigation' ? page : `${name} (${page})`}`;
+
+/**
+ * A budget without `step` is for navigations, one with `step` for the steps it matches
+ */
+const appliesTo = (entry: budget, { kind, name, page }: measurement) => {
+  if (!toRegExp(entry.page ?? '*').test(page)) return false;
+  return kind === 'step' ? entry.step !== undefined && toRegExp(entry.step).test(name) : entry.step === undefined;
+};
+
+export const checkBudgets = (budgets: budget[], measured: measurement): budgetBreach[] =>
+  budgets
+    .filter((entry) => appliesTo(entry, measured))
+    .flatMap((entry) => {
+      const { page, name, metrics } = measured;
+      const breached = METRICS.filter((metric) => metric in entry && metric in metrics && metrics[metric] > entry[metric]);
+      return breached.map((metric) => ({
+        page,
+        name,
+        metric,
+        value: metrics[metric],
+        limit: entry[metric],
+        severity: entry.severity ?? 'warning',
+      }));
+    });
+
+/**
+ * Runs in the page: waits for the load event and the largest contentful paint (where the browser reports it)
+ */
+const collectNavigation = (lcpWait: number, done: (metrics: { [metric: string]: number }) => void) => {
+  const collect = (lcp?: number) => {
+    const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+    const paint = performance.getEntriesByName('first-contentful-paint')[0];
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+    const metrics: { [metric: string]: number | undefined } = {
+      ttfb: navigation?.responseStart,
+      fcp: paint?.startTime,
+      lcp,
+      domContentLoaded: navigation?.domContentLoadedEventEnd,
+      load: navigation?.loadEventEnd,
+      transferSize: resources.reduce((total, entry) => total + (entry.transferSize || 0), navigation?.transferSize || 0),
+      requests: resources.length + 1,
+    };
+    const measured = Object.entries(metrics).filter(([, value]) => typeof value === 'number' && value > 0);
+    done(Object.fromEntries(measured.map(([metric, value]) => [metric, Math.round(value!)])));
+  };
+  const observe = () => {
+    if (!lcpWait || !PerformanceObserver.supportedEntryTypes?.includes('largest-contentful-paint')) return collect();
+    let lcp: number | undefined;
+    new PerformanceObserver((list) => list.getEntries().forEach((entry) => (lcp = entry.startTime))).observe({
+      type: 'largest-contentful-paint',
+      buffered: true,
+    });
+    setTimeout(() => collect(lcp), lcpWait);
+  };
+  if (document.readyState === 'complete') setTimeout(observe);
+  else window.addEventListener('load', () => setTimeout(observe));
+};
+
+export default class Performance implements Services.ServiceInstance {
+  _mode: string;
+  _budgets: budget[];
+  _lcpWait: number;
+  _enabled: boolean;
+
+  constructor(
+    private _options: Services.ServiceOption,
+    private _capabilities: Capabilities.Capabilities,
+    private _config: Omit<Options.Testrunner, 'capabilities'>
+  ) {
+    this._mode = this._options?.mode ?? 'dev';
+    this._budgets = loadBudgets(this._mode, this._options?.budgets);
+    this._lcpWait = this._options?.lcpWait ?? 500;
+    this._enabled = !this._options?.modes || this._options.modes.includes(this._mode);
+  }
+
+  record = (entry: measurement) => {
+    measurements.push(entry);
+    const breached = checkBudgets(this._budgets, entry);
+    breached.forEach((breach) => console.log(`Performance ${formatBreach(breach)}`));
+    breaches.push(...breached);
+  };
+
+  measureNavigation = async () => {
+    const metrics = await browser.executeAsync(collectNavigation, this._lcpWait);
+    this.record({ kind: 'navigation', name: 'navigation', page: getPage(await browser.getUrl()), at: new Date().toISOString(), metrics });
+  };
+
+  /**
+   * A step that navigated has a new timeOrigin, every request of the new document and the document itself are its own
+   */
+  measureStep = async <T>(name: string, step: () => Promise<T>) => {
+    if (!this._enabled) return step();
+    const mark = await browser.execute(() => ({ since: performance.now(), origin: performance.timeOrigin }));
+    const started = Date.now();
+    const result = await step();
+    const duration = Date.now() - started;
+    const { transferSize, requests } = await browser.execute(({ since, origin }: { since: number; origin: number }) => {
+      const navigated = performance.timeOrigin !== origin;
+      const entries = [
+        ...(navigated ? performance.getEntriesByType('navigation') : []),
+        ...performance.getEntriesByType('resource').filter((entry) => navigated || entry.startTime >= since),
+      ] as PerformanceResourceTiming[];
+      return { transferSize: entries.reduce((total, entry) => total + (entry.transferSize || 0), 0), requests: entries.length };
+    }, mark);
+    const page = getPage(await browser.getUrl());
+    this.record({ kind: 'step', name, page, at: new Date().toISOString(), metrics: { duration, transferSize, requests } });
+    return result;
+  };
+
+  before = () => {
+    browser.addCommand('measureStep', this.measureStep);
+    if (!this._enabled) return;
+    browser.overwriteCommand('url', async (url, path: string) => {
+      const result = await url(path);
+      await this.measureNavigation().catch((err) => console.error(`Unable to measure ${path}: ${err.message}`));
+      return result;
+    });
+  };
+
+  /**
+   * Navigations of hooks that ran before the test (login, readiness) are not the test's
+   */
+  beforeTest = () => {
+    takeMeasurements();
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * @author R,Mithun
+ * @module Profile
+ * Loads the environment profile for a mode from a YAML file (resources/profiles.yaml by default)
+ * - Any string value can use ${ENV_VAR} or ${ENV_VAR:-default}, resolved from process.env when loading
+ * - Each profile is checked against the schema below before the run starts
+ * profile: { baseUrl, timeouts: { spinner, waitfor, networkIdle? }, spinner?, readiness?: [probe], login, credentials: { source, ... } }
+ */
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { SevereServiceError } from 'webdriverio';
+import { hasLoginStrategy } from './login';
+import { hasReadinessProbe } from './readiness';
+
+export type credentialSource = { source: string; [option: string]: any };
+
+export type profile = {
+  baseUrl: string;
+  timeouts: { spinner: number; waitfor: number; networkIdle?: number };
+  spinner?: string;
+  readiness?: string[];
+  login: string;
+  credentials: credentialSource;
+};
+
+export const DEFAULT_PROFILES = resolve(__dirname, '..', 'resources', 'profiles.yaml');
+
+const DEFAULT_TIMEOUT = 20000;
+
+/**
+ * Replaces ${NAME} and ${NAME:-default} in every string of the loaded document, collecting unset variables
+ */
+const interpolate = (value: any, missing: Set<string>): any => {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)(?::-([^}]*))?\}/g, (match, name, fallback) => {
+      const resolved = process.env[name] ?? fallback;
+      if (resolved === undefined) missing.add(name);
+      return resolved ?? '';
+    });
+  }
+  if (Array.isArray(value)) return value.map((entry) => interpolate(entry, missing));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, interpolate(entry, missing)]));
+  }
+  return value;
+};
+
+export const validateProfile = (mode: string, value: any) => {
+  const errors: string[] = [];
+  if (!value || typeof value !== 'object') return [`profile '${mode}' must be an object`];
+  try {
+    new URL(value.baseUrl);
+  } catch (err) {
+    errors.push(`baseUrl must be an absolute url, got '${value.baseUrl}'`);
+  }
+  ['spinner', 'waitfor', 'networkIdle'].forEach((name) => {
+    const timeout = value.timeouts?.[name];
+    if (timeout !== undefined && !(Number.isInteger(timeout) && timeout >= 0)) {
+      errors.push(`timeouts.${name} must be a positive number of milliseconds`);
+    }
+  });
+  if (value.spinner !== undefined && typeof value.spinner !== 'string') errors.push('spinner must be a selector string');
+  if (value.readiness !== undefined && !Array.isArray(value.readiness)) errors.push('readiness must be a list of probes');
+  else {
+    const unknown = (value.readiness ?? []).filter((name: string) => !hasReadinessProbe(name));
+    unknown.forEach((name: string) => errors.push(`readiness probe '${name}' is not registered`));
+  }
+  if (typeof value.login !== 'string') errors.push('login must name a login strategy');
+  else if (!hasLoginStrategy(value.login)) errors.push(`login strategy '${value.login}' is not registered`);
+  if (typeof value.credentials?.source !== 'string') errors.push('credentials.source must name a credential source');
+  return errors.map((error) => `profile '${mode}': ${error}`);
+};
+
+export const loadProfile = (mode: string, file: string = DEFAULT_PROFILES): profile => {
+  if (!existsSync(file)) throw new SevereServiceError(`Profiles file ${file} not found`);
+  const yaml = require('js-yaml');
+  const profiles = yaml.load(readFileSync(file, 'utf-8')) ?? {};
+  if (!profiles[mode]) {
+    throw new SevereServiceError(`Mode '${mode}' has no profile in ${file}, available: ${Object.keys(profiles).join(', ')}`);
+  }
+  const missing = new Set<string>();
+  const value = interpolate(profiles[mode], missing);
+  const errors = [...missing].map((name) => `profile '${mode}': environment variable ${name} is not set`);
+  errors.push(...validateProfile(mode, value));
+  if (errors.length) throw new SevereServiceError(`Invalid profile in ${file}\n ${errors.join('\n ')}`);
+  return {
+    ...value,
+    timeouts: { spinner: DEFAULT_TIMEOUT, waitfor: DEFAULT_TIMEOUT, ...value.timeouts },
+  };
+};
@@ -0,0 +1,106 @@
+/**
+ * @author R,Mithun
+ * @module Readiness
+ * Waits until the application under test is ready, one probe after the other:
+ * - spinner: no element matching the `spinner` selector of the profile is displayed, within timeouts.spinner
+ * - document: document.readyState is complete
+ * - network: no fetch/XHR pending for timeouts.networkIdle ms, tracked by instrumentation injected into the page
+ *   (requests started before the first check of a page are not seen)
+ * - any probe registered with registerReadinessProbe, and predicates passed to a single call
+ * Probes other than the spinner use timeouts.waitfor. A timeout names the probe that did not settle.
+ * The Launcher adds it to the browser as `browser.waitForAppReady(options?)`.
+ */
+import type { profile } from './profile';
+
+export type readinessProbe = (profile: profile) => Promise<boolean>;
+
+export type readinessOptions = {
+  probes?: string[];
+  predicates?: { [name: string]: () => Promise<boolean> };
+  timeout?: number;
+};
+
+declare global {
+  namespace WebdriverIO {
+    interface Browser {
+      waitForAppReady: (options?: readinessOptions) => Promise<void>;
+    }
+  }
+}
+
+export const DEFAULT_PROBES = ['spinner', 'document', 'network'];
+
+const DEFAULT_NETWORK_IDLE = 500;
+
+const probes = new Map<string, readinessProbe>();
+
+export const registerReadinessProbe = (name: string, probe: readinessProbe) => {
+  probes.set(name, probe);
+};
+
+export const hasReadinessProbe = (name: string) => probes.has(name);
+
+/**
+ * Installs the fetch/XHR counters on first use in a page and returns the number of pending requests and the ms
+ * since the last request started or finished
+ */
+const readNetworkState = () =>
+  browser.execute(() => {
+    const scope = window as any;
+    if (!scope.__wdioHooksNetwork) {
+      const state = (scope.__wdioHooksNetwork = { pending: 0, last: Date.now() });
+      const start = () => {
+        state.pending++;
+        state.last = Date.now();
+      };
+      const done = () => {
+        state.pending = Math.max(0, state.pending - 1);
+        state.last = Date.now();
+      };
+      if (scope.fetch) {
+        const fetch = scope.fetch;
+        scope.fetch = function (...args: any[]) {
+          start();
+          return fetch.apply(this, args).finally(done);
+        };
+      }
+      const send = XMLHttpRequest.prototype.send;
+      XMLHttpRequest.prototype.send = function (...args: any[]) {
+        start();
+        this.addEventListener('loadend', done, { once: true });
+        return send.apply(this, args as any);
+      };
+    }
+    return { pending: scope.__wdioHooksNetwork.pending, idle: Date.now() - scope.__wdioHooksNetwork.last };
+  });
+
+registerReadinessProbe('spinner', async (profile) => {
+  if (!profile.spinner) return true;
+  const spinners = await $$(profile.spinner);
+  for (const spinner of spinners) if (await spinner.isDisplayed()) return false;
+  return true;
+});
+
+registerReadinessProbe('document', async () => (await browser.execute(() => document.readyState)) === 'complete');
+
+registerReadinessProbe('network', async (profile) => {
+  const { pending, idle } = await readNetworkState();
+  return pending === 0 && idle >= (profile.timeouts.networkIdle ?? DEFAULT_NETWORK_IDLE);
+});
+
+export const waitForAppReady = async (profile: profile, options: readinessOptions = {}) => {
+  const checks: [string, () => Promise<boolean>][] = (options.probes ?? profile.readiness ?? DEFAULT_PROBES).map((name) => {
+    const probe = probes.get(name);
+    if (!probe) throw new Error(`Readiness probe '${name}' is not registered`);
+    return [name, () => probe(profile)];
+  });
+  checks.push(...Object.entries(options.predicates ?? {}));
+  for (const [name, check] of checks) {
+    const timeout = options.timeout ?? (name === 'spinner' ? profile.timeouts.spinner : profile.timeouts.waitfor);
+    await browser.waitUntil(() => check().catch(() => false), {
+      timeout,
+      interval: 100,
+      timeoutMsg: `Application not ready: probe '${name}' did not settle within ${timeout}ms`,
+    });
+  }
+};
@@ -1,13 +1,44 @@
 import { getValue, setValue } from '@wdio/shared-store-service';
 import type { Capabilities, Services, Options } from '@wdio/types';
 import { Test, TestResult } from '@wdio/types/build/Frameworks';
-import { ensureFile, readJson, remove, writeJson } from 'fs-extra';
-import got from 'got';
+import { join, resolve } from 'path';
+import { SevereServiceError } from 'webdriverio';
+import { aggregate, appendShard, clearShards, counts, getBaseTestId, getTestId, readShards, testRecord, writeResults } from './results';
+import { flushOutbox, notify, validateWebhooks, webhook } from './notify';
+import { createRunFolder, getTestFolder, pruneRuns } from './artifacts';
+import { captureDiagnostics } from './diagnostics';
+import { DEFAULT_HISTORY_DIR, History, quarantineEntry } from './history';
+import { clearActiveRow, getActiveRow } from './fixtures';
+import { formatBreach, takeMeasurements } from './performance';
+
+type failure = { message?: string; stack?: string; error?: Error };
+
+type expectationResult = (this: { result: jasmine.SpecResult }, passed: boolean, data: failure, isError?: boolean) => void;
+
+declare global {
+  namespace jasmine {
+    const Spec: { prototype: { addExpectationResult: expectationResult } };
+  }
+}
 
 export default class Reporter implements Services.ServiceInstance {
   _timeout: number;
   _mode: string;
   _body: any;
+  _outputDir: string;
+  _started: Map<string, Date>;
+  _specs: string[];
+  _webhooks: webhook[];
+  _outbox: string;
+  _artifactsDir: string;
+  _artifactsOnPass: boolean;
+  _artifactsRetention: number;
+  _artifactsRun?: string;
+  _history: History;
+  _quarantineThreshold: number;
+  _quarantineMinRuns: number;
+  _quarantine: { [testId: string]: quarantineEntry };
+  _quarantinedFailures: Map<string, failure[]>;
 
   constructor(
     private _options: Services.ServiceOption,
@@ -16,22 +47,203 @@ export default class Reporter implements Services.ServiceInstance {
   ) {
     this._mode = this._options?.mode ?? 'dev';
     this._timeout = this._options?.timeout ?? 10000;
+    this._outputDir = resolve(this._options?.outputDir ?? '.reports');
+    this._started = new Map();
+    this._specs = [];
+    this._webhooks = this._options?.webhooks ?? [];
+    const invalid = validateWebhooks(this._webhooks);
+    if (invalid.length) throw new SevereServiceError(invalid.join('\n'));
+    this._outbox = resolve(this._options?.outbox ?? join(this._outputDir, 'outbox.json'));
+    this._artifactsDir = resolve(this._options?.artifactsDir ?? join(this._outputDir, 'artifacts'));
+    this._artifactsOnPass = !!this._options?.artifactsOnPass;
+    this._artifactsRetention = this._options?.artifactsRetention ?? 5;
+    this._history = new History(this._options?.historyDir ?? DEFAULT_HISTORY_DIR, this._options?.historySize);
+    this._quarantineThreshold = this._options?.quarantineThreshold ?? 0.3;
+    this._quarantineMinRuns = this._options?.quarantineMinRuns ?? 5;
+    this._quarantine = {};
+    this._quarantinedFailures = new Map();
   }
 
-  onPrepare = async () => {
-    await setValue('result', { total: 0, pass: 0, fail: 0, duration: 0 });
+  getCapability = () => {
+    const capabilities = browser.capabilities as Capabilities.Capabilities;
+    return [capabilities.browserName, capabilities.browserVersion].filter(Boolean).join(' ');
+  };
+
+  record = (record: Omit<testRecord, 'testId' | 'capability' | 'browser' | 'worker' | 'mode'>) => {
+    const worker = process.env.WDIO_WORKER_ID ?? '';
+    appendShard(this._outputDir, worker, {
+      ...record,
+      testId: getTestId(record.title, record.id, record.row?.id),
+      capability: this.getCapability(),
+      browser: (browser.capabilities as Capabilities.Capabilities).browserName ?? '',
+      worker,
+      mode: this._mode,
+    });
+  };
+
+  /**
+   * Pending (xit, pending()) and excluded specs never reach afterTest, nor do specs that failed in a beforeEach before
+   * their body ran (the Launcher fails them that way when the application could not be launched). They are picked up
+   * from jasmine itself.
+   */
+  watchUnrunSpecs = () => {
+    if (typeof jasmine === 'undefined') return;
+    const suites: string[] = [];
+    jasmine.getEnv().addReporter({
+      suiteStarted: (suite) => {
+        suites.push(suite.description);
+      },
+      suiteDone: () => {
+        suites.pop();
+      },
+      specDone: (spec) => {
+        const unrun = spec.status === 'failed' && !this._started.has(spec.fullName);
+        if (spec.status !== 'pending' && spec.status !== 'excluded' && !unrun) return;
+        const now = new Date().toISOString();
+        const [failure] = spec.failedExpectations;
+        this.record({
+          id: spec.fullName,
+          suite: suites[suites.length - 1] ?? '',
+          title: spec.description,
+          file: this._specs[0] ?? '',
+          state: unrun ? 'failed' : spec.status === 'pending' ? 'pending' : 'skipped',
+          retries: 0,
+          error: (unrun ? failure?.message : spec.pendingReason) || undefined,
+          stack: unrun ? failure?.stack : undefined,
+          start: now,
+          end: now,
+          duration: 0,
+        });
+      },
+    });
+  };
+
+  /**
+   * An entry without a row covers every row of a test generated from a dataset
+   */
+  isQuarantined = (testId: string) => !!(this._quarantine[testId] || this._quarantine[getBaseTestId(testId)]);
+
+  /**
+   * Failures of quarantined tests are kept from jasmine, so they do not fail the worker, and recorded by afterTest
+   * instead. Failures before the test started (a failed beforeEach) still reach jasmine.
+   */
+  watchQuarantinedSpecs = () => {
+    if (typeof jasmine === 'undefined' || !jasmine.Spec) return;
+    const addExpectationResult = jasmine.Spec.prototype.addExpectationResult;
+    const reporter = this;
+    jasmine.Spec.prototype.addExpectationResult = function (passed, data, isError) {
+      const { fullName, description } = this.result;
+      const quarantined = reporter._started.has(fullName) && reporter.isQuarantined(getTestId(description, fullName, getActiveRow()?.id));
+      if (passed || !quarantined) return addExpectationResult.call(this, passed, data, isError);
+      const failures = reporter._quarantinedFailures.get(fullName) ?? [];
+      reporter._quarantinedFailures.set(fullName, [
+        ...failures,
+        { message: data.message || data.error?.message, stack: data.stack ?? data.error?.stack },
+      ]);
+    };
+  };
+
+  /**
+   * The results are completed by a config onComplete hook rather than the service hook, see complete
+   */
+  onPrepare = async (config: Options.Testrunner) => {
+    config.onComplete = [config.onComplete ?? []].flat().concat(this.complete);
+    await clearShards(this._outputDir);
+    pruneRuns(this._artifactsDir, this._artifactsRetention);
+    await setValue('artifactsRun', createRunFolder(this._artifactsDir));
+    await flushOutbox(this._webhooks, this._outbox, this._timeout).catch((err) => console.error(`Unable to flush outbox: ${err.message}`));
+  };
+
+  before = async (capabilities: Capabilities.Capabilities, specs: string[]) => {
+    this._specs = specs;
+    this._artifactsRun = (await getValue('artifactsRun')) as string;
+    this._quarantine = this._history.readQuarantine();
+    this.watchUnrunSpecs();
+    this.watchQuarantinedSpecs();
+  };
+
+  beforeTest = (test: Test) => {
+    clearActiveRow();
+    this._started.set(test.fullName, new Date());
   };
 
   afterTest = async (test: Test, context: any, result: TestResult) => {
-    const current: any = await getValue('result');
-    current.total += 1;
-    result.passed ? (current.pass += 1) : (current.fail += 1);
-    current.duration += result.duration;
-    await setValue('result', current);
+    const end = new Date();
+    const start = this._started.get(test.fullName) ?? new Date(end.getTime() - result.duration);
+    const row = getActiveRow();
+    const { measurements, breaches } = takeMeasurements();
+    const exceeded = breaches.filter((breach) => breach.severity === 'failure');
+    const [quarantinedFailure] = this._quarantinedFailures.get(test.fullName) ?? [];
+    const passed = result.passed && !exceeded.length && !quarantinedFailure;
+    const artifacts =
+      this._artifactsRun && (!passed || this._artifactsOnPass)
+        ? await captureDiagnostics(getTestFolder(this._artifactsRun, getTestId(test.title, test.fullName, row?.id), this.getCapability()))
+        : undefined;
+    this.record({
+      id: test.fullName,
+      suite: test.parent,
+      title: test.title,
+      file: test.file,
+      state: passed ? 'passed' : 'failed',
+      retries: result.retries?.attempts ?? 0,
+      error: result.error?.message ?? quarantinedFailure?.message ?? (exceeded.length ? exceeded.map(formatBreach).join(', ') : undefined),
+      stack: result.error?.stack ?? quarantinedFailure?.stack,
+      artifacts,
+      row,
+      performance: measurements.length ? measurements : undefined,
+      budgets: breaches.length ? breaches : undefined,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      duration: result.duration,
+    });
+  };
+
+  /**
+   * Adds the run and its page measurements to the history, then quarantines or releases tests from what the history now says
+   */
+  updateHistory = (tests: testRecord[]) => {
+    this._history.add(tests);
+    this._history.addMeasurements(tests);
+    const { added, released } = this._history.updateQuarantine(this._quarantineThreshold, this._quarantineMinRuns);
+    added.forEach((testId) => console.log(`Quarantined ${testId}, it is flaky`));
+    released.forEach((testId) => console.log(`Released ${testId} from quarantine`));
   };
 
-  onComplete = async () => {
-    const current: any = await getValue('result');
-    console.log(`ON COMPLETE ${JSON.stringify(current)}`);
+  /**
+   * Registered as a config onComplete hook: wdio turns an error of one into exit code 1 and still prints its summary,
+   * whereas an error of a service onComplete hook aborts the launcher with a stack trace. The trade-off is that wdio
+   * logs the error as a failed onComplete hook, and that config hooks run before the service onComplete hooks.
+   * A failure in the merged results fails the run even if every worker exited cleanly (a budget failure), quarantined
+   * failures never reach jasmine so they leave the exit code alone.
+   */
+  complete = async (exitCode: number) => {
+    const tests = readShards(this._outputDir);
+    this._quarantine = this._history.readQuarantine();
+    tests.filter((test) => test.state === 'failed' && this.isQuarantined(test.testId)).forEach((test) => (test.quarantined = true));
+    const summary = aggregate(tests);
+    const format = ({ total, pass, fail, quarantined, skipped, pending, warnings }: counts) =>
+      `${total} total, ${pass} passed, ${fail} failed, ${quarantined} quarantined failures, ${skipped} skipped, ${pending} pending, ${warnings} with budget warnings`;
+    console.log(`ON COMPLETE ${format(summary)}`);
+    Object.entries(summary.byCapability).forEach(([capability, counts]) => console.log(` ${capability}: ${format(counts)}`));
+    tests
+      .filter((test) => test.quarantined)
+      .forEach((test) => console.log(`Quarantined failure ${test.testId} (${test.capability}): ${test.error ?? 'failed'}`));
+    const files = await writeResults(this._outputDir, tests, this._mode);
+    console.log(`Results written to ${Object.values(files).join(', ')}`);
+    try {
+      this.updateHistory(tests);
+    } catch (err) {
+      console.error(`Unable to update history: ${err.message}`);
+    }
+    const notification = {
+      mode: this._mode,
+      summary,
+      failed: tests.filter((test) => test.state === 'failed' && !test.quarantined),
+      finishedAt: new Date().toISOString(),
+    };
+    await notify(this._webhooks, notification, this._outbox, this._timeout).catch((err) => {
+      console.error(`Unable to send notifications: ${err.message}`);
+    });
+    if (summary.fail && !exitCode) throw new Error(`${summary.fail} of ${summary.total} tests failed`);
   };
 }
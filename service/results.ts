@@ -0,0 +1,245 @@
+/**
+ * @author R,Mithun
+ * @module Results
+ * Per-test records collected by the Reporter and the files written from them:
+ * - each worker appends its records to its own shard (shards/<worker>.jsonl), so no update can be lost,
+ *   the launcher merges the shards once the run is over
+ * - results.json: the summary broken down by suite, capability, mode and worker, and every record, for other tools
+ * - junit.xml: one testsuite per suite and capability, for CI
+ * - report.html: a self-contained summary with the failures expanded
+ * Tests that breach a performance budget at warning level are counted as warnings, failure breaches fail the test
+ */
+import { appendFileSync, existsSync, readdirSync, readFileSync } from 'fs';
+import { ensureDir, mkdirsSync, outputFile, remove, writeJson } from 'fs-extra';
+import { basename, join, relative } from 'path';
+import type { datasetRow } from './fixtures';
+import { budgetBreach, formatBreach, measurement } from './performance';
+
+export type testRecord = {
+  id: string;
+  testId: string;
+  suite: string;
+  title: string;
+  file: string;
+  capability: string;
+  browser: string;
+  worker: string;
+  mode: string;
+  state: 'passed' | 'failed' | 'skipped' | 'pending';
+  retries: number;
+  quarantined?: boolean;
+  error?: string;
+  stack?: string;
+  artifacts?: string[];
+  row?: datasetRow;
+  performance?: measurement[];
+  budgets?: budgetBreach[];
+  start: string;
+  end: string;
+  duration: number;
+};
+
+export type counts = {
+  total: number;
+  pass: number;
+  fail: number;
+  quarantined: number;
+  skipped: number;
+  pending: number;
+  warnings: number;
+  duration: number;
+};
+
+export type summary = counts & {
+  bySuite: { [suite: string]: counts };
+  byCapability: { [capability: string]: counts };
+  byMode: { [mode: string]: counts };
+  byWorker: { [worker: string]: counts };
+};
+
+const SHARDS = 'shards';
+
+/**
+ * The id prefix of a test title (G101_Google in 'G101_Google: Test search'), the full name when there is none.
+ * Tests generated from a dataset get the row id appended (G101_Google[demo]), every row has its own history. History
+ * kept before a test was generated from a dataset stays under the plain id and is not carried over to its rows.
+ */
+export const getTestId = (title: string, fullName: string, row?: string) => {
+  const id = title.match(/^\s*(\w+):/)?.[1] ?? fullName;
+  return row ? `${id}[${row}]` : id;
+};
+
+/**
+ * The test id without its row (G101_Google for G101_Google[demo])
+ */
+export const getBaseTestId = (testId: string) => testId.replace(/\[[^\]]*\]$/, '');
+
+export const summarize = (records: testRecord[]): counts => ({
+  total: records.length,
+  pass: records.filter((record) => record.state === 'passed').length,
+  fail: records.filter((record) => record.state === 'failed' && !record.quarantined).length,
+  quarantined: records.filter((record) => record.state === 'failed' && record.quarantined).length,
+  skipped: records.filter((record) => record.state === 'skipped').length,
+  pending: records.filter((record) => record.state === 'pending').length,
+  warnings: records.filter((record) => record.budgets?.some((breach) => breach.severity === 'warning')).length,
+  duration: records.reduce((total, record) => total + record.duration, 0),
+});
+
+const escapeXml = (value: string = '') =>
+  value.replace(/[<>&'"]/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char]!);
+
+const groupBy = (records: testRecord[], key: (record: testRecord) => string) => {
+  const groups: { [key: string]: testRecord[] } = {};
+  records.forEach((record) => (groups[key(record)] = groups[key(record)] ?? []).push(record));
+  return groups;
+};
+
+const summarizeBy = (records: testRecord[], key: (record: testRecord) => string) =>
+  Object.fromEntries(Object.entries(groupBy(records, key)).map(([name, group]) => [name, summarize(group)]));
+
+export const aggregate = (records: testRecord[]): summary => ({
+  ...summarize(records),
+  bySuite: summarizeBy(records, (record) => record.suite),
+  byCapability: summarizeBy(records, (record) => record.capability),
+  byMode: summarizeBy(records, (record) => record.mode),
+  byWorker: summarizeBy(records, (record) => record.worker),
+});
+
+/**
+ * Appends one record to the shard of `worker`, each worker only ever writes its own shard
+ */
+export const appendShard = (folder: string, worker: string, record: testRecord) => {
+  mkdirsSync(join(folder, SHARDS));
+  appendFileSync(join(folder, SHARDS, `${worker || process.pid}.jsonl`), `${JSON.stringify(record)}\n`);
+};
+
+export const readShards = (folder: string): testRecord[] => {
+  const shards = join(folder, SHARDS);
+  if (!existsSync(shards)) return [];
+  return readdirSync(shards)
+    .filter((file) => file.endsWith('.jsonl'))
+    .flatMap((file) => readFileSync(join(shards, file), 'utf-8').split('\n').filter(Boolean))
+    .map((line) => JSON.parse(line))
+    .sort((a: testRecord, b: testRecord) => a.start.localeCompare(b.start));
+};
+
+export const clearShards = (folder: string) => remove(join(folder, SHARDS));
+
+export const toJUnit = (records: testRecord[]) => {
+  const suites = Object.values(groupBy(records, (record) => `${record.suite}\n${record.capability}`)).map((tests) => {
+    const { suite, capability, mode, start } = tests[0];
+    const { total, fail, quarantined, skipped, pending, duration } = summarize(tests);
+    const cases = tests.map((test) => {
+      const children: string[] = [];
+      if (test.row) {
+        const properties = { dataset: test.row.dataset, row: test.row.id, values: JSON.stringify(test.row.values) };
+        const entries = Object.entries(properties).map(([name, value]) => `<property name="${name}" value="${escapeXml(value)}"/>`);
+        children.push(`<properties>${entries.join('')}</properties>`);
+      }
+      if (test.state === 'failed' && test.quarantined) children.push(`<skipped message="${escapeXml(`quarantined: ${test.error}`)}"/>`);
+      else if (test.state === 'failed') children.push(`<failure message="${escapeXml(test.error)}">${escapeXml(test.stack)}</failure>`);
+      else if (test.state !== 'passed') children.push(`<skipped message="${test.state}"/>`);
+      const output = [...(test.budgets ?? []).map(formatBreach), ...(test.artifacts ?? []).map((file) => `[[ATTACHMENT|${file}]]`)];
+      if (output.length) children.push(`<system-out>${escapeXml(output.join('\n'))}</system-out>`);
+      const body = children.length ? `\n${children.map((child) => `      ${child}`).join('\n')}\n    ` : '';
+      const name = escapeXml(test.title);
+      return `    <testcase classname="${escapeXml(suite)}" name="${name}" file="${escapeXml(test.file)}" time="${test.duration / 1000}">${body}</testcase>`;
+    });
+    return [
+      `  <testsuite name="${escapeXml(`${suite} (${capability})`)}" tests="${total}" failures="${fail}" skipped="${quarantined + skipped + pending}" time="${duration / 1000}" timestamp="${start}">`,
+      `    <properties><property name="mode" value="${escapeXml(mode)}"/><property name="capability" value="${escapeXml(capability)}"/></properties>`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+  const { total, fail, quarantined, skipped, pending, duration } = summarize(records);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${total}" failures="${fail}" skipped="${quarantined + skipped + pending}" time="${duration / 1000}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
+
+const toBreakdown = (title: string, groups: { [name: string]: counts }) => {
+  const rows = Object.entries(groups).map(
+    ([name, { total, pass, fail, quarantined, skipped, pending }]) =>
+      `<tr><td>${escapeXml(name)}</td><td>${total}</td><td>${pass}</td><td>${fail}</td><td>${quarantined}</td><td>${skipped}</td><td>${pending}</td></tr>`
+  );
+  return [
+    `<h2>By ${title}</h2>`,
+    '<table>',
+    `<tr><th>${title}</th><th>Total</th><th>Passed</th><th>Failed</th><th>Quarantined</th><th>Skipped</th><th>Pending</th></tr>`,
+    ...rows,
+    '</table>',
+  ].join('\n');
+};
+
+export const toHtml = (records: testRecord[], title: string, folder: string) => {
+  const { total, pass, fail, quarantined, skipped, pending, warnings, duration, bySuite, byCapability, byMode, byWorker } =
+    aggregate(records);
+  const rows = records.map((record) => {
+    const error = record.error
+      ? `<details><summary>${escapeXml(record.error)}</summary><pre>${escapeXml(record.stack)}</pre></details>`
+      : '';
+    const artifacts = (record.artifacts ?? [])
+      .map((file) => `<a href="${escapeXml(relative(folder, file).split('\\').join('/'))}">${escapeXml(basename(file))}</a>`)
+      .join(' ');
+    const row = record.row
+      ? `<div>${escapeXml(`${record.row.dataset} row ${record.row.id}: ${JSON.stringify(record.row.values)}`)}</div>`
+      : '';
+    const budgets = (record.budgets ?? []).map((breach) => `<div class="${breach.severity}">${escapeXml(formatBreach(breach))}</div>`);
+    return [
+      `<tr class="${record.state}">`,
+      `<td>${escapeXml(record.suite)}</td><td>${escapeXml(record.title)}${row}${error}${budgets.join('')}${artifacts ? `<div>${artifacts}</div>` : ''}</td><td>${escapeXml(record.capability)}</td>`,
+      `<td>${escapeXml(record.worker)}</td><td>${record.retries}</td><td>${(record.duration / 1000).toFixed(1)}s</td>`,
+      `<td>${record.state}${record.quarantined ? ' (quarantined)' : ''}</td>`,
+      '</tr>',
+    ].join('');
+  });
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+tr.passed td:last-child { color: #2e7d32; }
+tr.failed td:last-child { color: #c62828; font-weight: bold; }
+tr.skipped td:last-child, tr.pending td:last-child { color: #757575; }
+div.warning { color: #ef6c00; }
+div.failure { color: #c62828; }
+pre { white-space: pre-wrap; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<p>${total} tests, ${pass} passed, ${fail} failed, ${quarantined} quarantined failures, ${skipped} skipped, ${pending} pending, ${warnings} with budget warnings in ${(duration / 1000).toFixed(1)}s</p>
+${toBreakdown('capability', byCapability)}
+${toBreakdown('suite', bySuite)}
+${toBreakdown('mode', byMode)}
+${toBreakdown('worker', byWorker)}
+<h2>Tests</h2>
+<table>
+<tr><th>Suite</th><th>Test</th><th>Capability</th><th>Worker</th><th>Retries</th><th>Duration</th><th>State</th></tr>
+${rows.join('\n')}
+</table>
+</body>
+</html>
+`;
+};
+
+/**
+ * Writes results.json, junit.xml and report.html into `folder`, returns the files written
+ */
+export const writeResults = async (folder: string, records: testRecord[], mode: string) => {
+  const files = { json: join(folder, 'results.json'), junit: join(folder, 'junit.xml'), html: join(folder, 'report.html') };
+  await ensureDir(folder);
+  await writeJson(files.json, { mode, summary: aggregate(records), tests: records }, { spaces: 2 });
+  await outputFile(files.junit, toJUnit(records));
+  await outputFile(files.html, toHtml(records, `Test results (${mode})`, folder));
+  return files;
+};
@@ -0,0 +1,71 @@
+/**
+ * @author R,Mithun
+ * @module Retry
+ * Retries an async step with a policy:
+ * - exponential backoff from `delay`, capped at `maxDelay`, spread by +/- `jitter` (fraction of the delay)
+ * - only errors named in `retryOn` are retried, every error except SevereServiceError when it is not set
+ * - every failed attempt is recorded, the final failure is a RetryError carrying all of them
+ */
+import { SevereServiceError } from 'webdriverio';
+
+export type retryPolicy = {
+  attempts: number;
+  delay: number;
+  backoff: number;
+  maxDelay: number;
+  jitter: number;
+  retryOn?: string[];
+};
+
+export type attemptRecord = { attempt: number; failedAt: string; error: string; diagnostics?: string };
+
+export const DEFAULT_RETRY_POLICY: retryPolicy = { attempts: 1, delay: 1000, backoff: 2, maxDelay: 30000, jitter: 0.2 };
+
+export class RetryError extends SevereServiceError {
+  constructor(
+    message: string,
+    public attempts: attemptRecord[]
+  ) {
+    super(
+      `${message}\n${attempts.map(({ attempt, error, diagnostics }) => ` attempt ${attempt}: ${error}${diagnostics ? ` (${diagnostics})` : ''}`).join('\n')}`
+    );
+    this.name = 'RetryError';
+  }
+}
+
+export const isRetryable = (policy: retryPolicy, err: Error) => {
+  if (err instanceof SevereServiceError) return false;
+  return !policy.retryOn || policy.retryOn.includes(err.name) || policy.retryOn.includes(err.constructor?.name);
+};
+
+export const getRetryDelay = (policy: retryPolicy, attempt: number) => {
+  const delay = Math.min(policy.maxDelay, policy.delay * Math.pow(policy.backoff, attempt - 1));
+  return Math.max(0, Math.round(delay * (1 + policy.jitter * (Math.random() * 2 - 1))));
+};
+
+/**
+ * Runs `step` until it succeeds, the error is not retryable or the attempts run out
+ * `onFailure` is called for every failed attempt and can return where its diagnostics were saved
+ */
+export const withRetry = async <T>(
+  step: (attempt: number) => Promise<T>,
+  policy: retryPolicy,
+  onFailure: (err: Error, attempt: number) => Promise<string | undefined> = async () => undefined,
+  describe: (err: Error) => string = (err) => err.message
+) => {
+  const attempts: attemptRecord[] = [];
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await step(attempt);
+    } catch (err) {
+      const diagnostics = await onFailure(err, attempt);
+      attempts.push({ attempt, failedAt: new Date().toISOString(), error: describe(err), diagnostics });
+      if (attempt >= policy.attempts || !isRetryable(policy, err)) {
+        throw new RetryError(`Failed after ${attempt} attempt(s)`, attempts);
+      }
+      const delay = getRetryDelay(policy, attempt);
+      console.log(`Attempt ${attempt} failed, retrying in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+};
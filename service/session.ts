@@ -0,0 +1,140 @@
+/**
+ * @author R,Mithun
+ * @module Session
+ * Caches the authenticated browser state of a credential so later workers can skip the login flow
+ * - Cookies, localStorage and sessionStorage are saved after a successful login, one file per mode and credential
+ * - Entries expire after the ttl, or earlier when a cookie of the entry expires
+ * - Restoring goes through the readiness probe of the login strategy, an entry that fails it is dropped
+ * - Files hold live session tokens, the folder and files are created for the owner only and should stay out of git
+ */
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+type cookie = Awaited<ReturnType<WebdriverIO.Browser['getCookies']>>[number];
+
+type storage = { [key: string]: string };
+
+export type sessionEntry = {
+  savedAt: number;
+  expiresAt: number;
+  url: string;
+  cookies: cookie[];
+  localStorage: storage;
+  sessionStorage: storage;
+};
+
+export const DEFAULT_SESSION_DIR = '.sessions';
+
+/**
+ * Clears the state of the current origin, cheaper than reloading the whole session between login attempts. A session
+ * that can not be reset any more (crashed tab, lost grid node) is replaced with a new one.
+ */
+export const resetBrowserState = async () => {
+  try {
+    await browser.deleteCookies();
+    await browser.execute(() => {
+      window.localStorage.clear();
+      window.sessionStorage.clear();
+    });
+  } catch (err) {
+    console.error(`Unable to reset the browser state, reloading the session: ${err.message}`);
+    await browser.reloadSession();
+  }
+};
+
+export class SessionCache {
+  _dir: string;
+
+  constructor(
+    dir: string = DEFAULT_SESSION_DIR,
+    private _ttl = 30 * 60 * 1000
+  ) {
+    this._dir = resolve(dir);
+  }
+
+  /**
+   * The whole credential is hashed so a changed password also invalidates the entry, without the credential
+   * ending up in the file name
+   */
+  getFile = (mode: string, credentials: any) => {
+    const hash = createHash('sha256')
+      .update(`${mode}:${JSON.stringify(credentials)}`)
+      .digest('hex');
+    return join(this._dir, `${mode}-${hash.slice(0, 16)}.json`);
+  };
+
+  read = (mode: string, credentials: any): sessionEntry | undefined => {
+    const file = this.getFile(mode, credentials);
+    if (!existsSync(file)) return;
+    try {
+      const entry: sessionEntry = JSON.parse(readFileSync(file, 'utf-8'));
+      if (entry.expiresAt > Date.now()) return entry;
+    } catch (err) {
+      console.error(`Ignoring unreadable session cache ${file}: ${err.message}`);
+    }
+    this.remove(mode, credentials);
+  };
+
+  write = (mode: string, credentials: any, entry: sessionEntry) => {
+    mkdirSync(this._dir, { recursive: true, mode: 0o700 });
+    const file = this.getFile(mode, credentials);
+    writeFileSync(`${file}.tmp`, JSON.stringify(entry), { mode: 0o600 });
+    renameSync(`${file}.tmp`, file);
+  };
+
+  remove = (mode: string, credentials: any) => {
+    rmSync(this.getFile(mode, credentials), { force: true });
+  };
+
+  /**
+   * Removes the entries of one mode, or the whole cache when no mode is given
+   */
+  clear = (mode?: string) => {
+    if (!existsSync(this._dir)) return;
+    readdirSync(this._dir)
+      .filter((file) => !mode || file.startsWith(`${mode}-`))
+      .forEach((file) => rmSync(join(this._dir, file), { force: true }));
+  };
+
+  /**
+   * Saves the state of the current page after a successful login
+   */
+  save = async (mode: string, credentials: any) => {
+    const cookies = await browser.getCookies();
+    const storages = await browser.execute(() => ({
+      localStorage: Object.assign({}, window.localStorage),
+      sessionStorage: Object.assign({}, window.sessionStorage),
+    }));
+    const savedAt = Date.now();
+    const cookieExpiry = cookies.filter((cookie) => cookie.expiry).map((cookie) => cookie.expiry! * 1000);
+    this.write(mode, credentials, {
+      savedAt,
+      expiresAt: Math.min(savedAt + this._ttl, ...cookieExpiry),
+      url: await browser.getUrl(),
+      cookies,
+      ...storages,
+    });
+  };
+
+  /**
+   * Applies a cached entry to the browser, cookies can only be set on the origin they were saved from
+   * Returns false when there is no usable entry
+   */
+  restore = async (mode: string, credentials: any) => {
+    const entry = this.read(mode, credentials);
+    if (!entry) return false;
+    if (new URL(entry.url).origin !== new URL(await browser.getUrl()).origin) await browser.url(entry.url);
+    await browser.setCookies(entry.cookies);
+    await browser.execute(
+      (local: storage, session: storage) => {
+        Object.entries(local).forEach(([key, value]) => window.localStorage.setItem(key, value));
+        Object.entries(session).forEach(([key, value]) => window.sessionStorage.setItem(key, value));
+      },
+      entry.localStorage,
+      entry.sessionStorage
+    );
+    await browser.url(entry.url);
+    return true;
+  };
+}
@@ -1,9 +1,13 @@
+import { fixture } from '../../../service/fixtures';
+
+type search = { id: string; term: string };
+
 describe('Google', () => {
-  it('G101_Google: Test search', async () => {
+  fixture<search>('search').each('G101_Google: Test search', async ({ term }) => {
     const search = await $('//*[@name="q"]');
     await search.waitForDisplayed();
-    await search.setValue('Demo');
+    await search.setValue(term);
     const key = await search.getValue();
-    expect(key).toBe('Demo');
+    expect(key).toBe(term);
   });
 });
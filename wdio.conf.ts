@@ -1,24 +1,25 @@
 import { resolve } from 'path';
+import Downloads from './service/downloads';
 import Driver from './service/driver';
 import Launcher from './service/launcher';
+import Performance from './service/performance';
 import Reporter from './service/reporter';
 
 const mode = process.env.mode ? process.env.mode : 'dev';
-const downloadsPath = resolve(__dirname, './resources/downloads');
 const drivers = {
-  chrome: 'latest', // support for firefox available. Pending implementation for edge and chromiumedge
+  chrome: 'latest', // support for firefox, edge and chromiumedge available
+};
+const browserNames: { [driver: string]: string } = {
+  chrome: 'chrome',
+  firefox: 'firefox',
+  edge: 'MicrosoftEdge',
+  chromiumedge: 'MicrosoftEdge',
 };
 const capabilities = [
   {
     browserName: 'chrome',
     acceptInsecureCerts: true,
-    'goog:chromeOptions': {
-      prefs: {
-        directory_upgrade: true,
-        prompt_for_download: false,
-        'download.default_directory': downloadsPath,
-      },
-    },
+    'goog:loggingPrefs': { browser: 'ALL', performance: 'ALL' },
     'wdio:devtoolsOptions': {
       headless: false,
     },
@@ -27,12 +28,16 @@ const capabilities = [
     browserName: 'firefox',
     acceptInsecureCerts: true,
   },
+  {
+    browserName: 'MicrosoftEdge',
+    acceptInsecureCerts: true,
+  },
 ];
 
 export const config: WebdriverIO.Config = {
   runner: 'local',
   baseUrl: 'https://www.google.com/',
-  capabilities: capabilities.filter((capability) => Object.keys(drivers).includes(capability.browserName)),
+  capabilities: capabilities.filter((capability) => Object.keys(drivers).some((driver) => browserNames[driver] === capability.browserName)),
   maxInstances: 4,
   logLevel: 'error',
   waitforTimeout: 5000,
@@ -41,9 +46,18 @@ export const config: WebdriverIO.Config = {
   },
   services: [
     ['shared-store', {}],
-    [Driver, { selenium: 'latest', rejectUnauthorized: false, drivers: drivers, timeout: 120000 }],
-    [Launcher, { mode: mode, retry: 3 }],
-    [Reporter, { mode: mode, timeout: 10000 }],
+    [Driver, { selenium: 'latest', caFile: process.env.CA_FILE, drivers: drivers, timeout: 120000 }],
+    [Launcher, { mode: mode, retry: 3, clearSessions: !!process.env.CLEAR_SESSIONS }],
+    [
+      Reporter,
+      {
+        mode: mode,
+        timeout: 10000,
+        webhooks: process.env.WEBHOOK_URL ? [{ url: process.env.WEBHOOK_URL, template: 'card', modes: ['preprod', 'prod'] }] : [],
+      },
+    ],
+    [Downloads, { dir: resolve(__dirname, './resources/downloads'), timeout: 30000 }],
+    [Performance, { mode: mode }],
   ],
   reporters: ['spec'],
   framework: 'jasmine',